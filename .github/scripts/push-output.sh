@@ -0,0 +1,59 @@
+#!/usr/bin/env bash
+# Commits pipeline output and pushes it to main.
+#
+# backend/output/pipeline.db is binary, so git cannot rebase a run's commit onto
+# one another workflow pushed in the meantime. When that happens the stage runs
+# again on the fresh main (the command after --) and its output is committed there.
+#
+# Usage: push-output.sh <commit message> <path>... -- <stage command>...
+set -uo pipefail
+
+message="$1"
+shift
+paths=()
+while [ "$#" -gt 0 ] && [ "$1" != "--" ]; do
+  paths+=("$1")
+  shift
+done
+shift
+stage=("$@")
+
+# Sources archived by the stage go to the source-archive branch first, so
+# source_archive.json on main never lists blobs that are not published yet
+push_archive() {
+  [ -n "${SOURCE_ARCHIVE_ROOT:-}" ] || return 0
+  (
+    cd "$SOURCE_ARCHIVE_ROOT" || exit 1
+    git add -A archive
+    git diff --cached --quiet && exit 0
+    git commit -q -m "chore(archive): archive plugin sources [skip ci]"
+    # Blobs are content-addressed, so concurrent runs never write one path differently
+    if git ls-remote --exit-code --heads origin source-archive > /dev/null; then
+      git pull --rebase origin source-archive || exit 1
+    fi
+    git push origin HEAD:source-archive
+  )
+}
+
+for attempt in 1 2 3; do
+  push_archive || exit 1
+  git add -A -- "${paths[@]}"
+  if git diff --cached --quiet; then
+    echo "No changes to commit"
+    exit 0
+  fi
+  git commit -q -m "$message"
+  # Commits that leave pipeline.db alone, such as code changes, rebase cleanly
+  if git pull --rebase origin main && git push origin HEAD:main; then
+    exit 0
+  fi
+  git rebase --abort 2> /dev/null
+  [ "$attempt" -lt 3 ] || break
+  echo "main changed pipeline.db since this run started; running the stage again on it (attempt $attempt)"
+  git fetch origin main
+  git reset -q --hard origin/main
+  "${stage[@]}"
+done
+
+echo "Could not push after $attempt attempts" >&2
+exit 1
@@ -1,12 +1,13 @@
 import fs from "node:fs";
 import path from "node:path";
-import { execSync } from "node:child_process";
-import { fileURLToPath } from 'node:url';
-import { dirname } from 'node:path';
+import { execFileSync, execSync } from "node:child_process";
 import os from "node:os";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { GitHubTokenPool } from "./github-token-pool.js";
+import { MAX_RATE_LIMIT_ATTEMPTS, RequestScheduler } from "./request-scheduler.js";
+import { getConfig, type PipelineConfig } from "./config.js";
+import { getStore, type AuthorRecord, type PluginStore } from "./plugin-store.js";
+import { writePublishedFile } from "./published-schemas.js";
+import type { AuthorDiscoveredRepositoriesFile } from "./published-types.js";
 
 interface GitHubRepository {
   full_name: string;
@@ -23,76 +24,47 @@ interface GitHubRepository {
   };
 }
 
+// Authors and discovered repositories are rows in the store; the rest is the stage's run state
 interface AuthorRepositoryFinderState {
   last_updated: string;
   current_author_index: number;
-  processed_authors: {
-    [author: string]: {
-      last_processed: string;
-      repositories_found: number;
-      success: boolean;
-      error?: string;
-    };
-  };
+  processed_authors: Record<string, AuthorRecord>;
   discovered_repositories: string[];
 }
 
-interface FoundRepositoryData {
-  generated_at: string;
-  source: string;
-  count: number;
-  repositories: string[];
-}
-
-interface OxidePluginData {
-  items: {
-    repository?: {
-      owner_login?: string;
-    };
-  }[];
-}
-
-interface CrawledPluginData {
-  items: {
-    repository?: {
-      owner_login?: string;
-    };
-  }[];
-}
 
 export class AuthorRepositoryFinder {
-  private githubToken: string;
+  private tokens: GitHubTokenPool;
+  private scheduler: RequestScheduler;
+  private settings: PipelineConfig["authorFinder"];
+  private signatures: string[];
   private outputDir: string;
-  private stateFile: string;
-  private outputFile: string;
+  private store: PluginStore;
   private state: AuthorRepositoryFinderState;
 
-  constructor(githubToken?: string) {
-    if (!githubToken) {
+  constructor(tokens: GitHubTokenPool, config: PipelineConfig = getConfig()) {
+    if (tokens.size === 0) {
       throw new Error("GitHub token is required");
     }
     
-    this.githubToken = githubToken;
-    this.outputDir = path.join(__dirname, "../output");
-    this.stateFile = path.join(this.outputDir, "author_finder_state.json");
-    this.outputFile = path.join(this.outputDir, "author_discovered_repositories.json");
+    this.tokens = tokens;
+    this.scheduler = new RequestScheduler({ concurrency: 1, tokens });
+    this.settings = config.authorFinder;
+    this.signatures = config.discovery.signatures;
+    this.outputDir = config.paths.outputDir;
+    this.store = getStore();
     
     this.state = this.createInitialState(); // Initialize first
     this.loadState();
   }
 
   private loadState(): void {
-    if (fs.existsSync(this.stateFile)) {
-      try {
-        const stateData = fs.readFileSync(this.stateFile, 'utf-8');
-        this.state = JSON.parse(stateData);
-      } catch (error) {
-        console.error("Failed to load state, creating new one:", error);
-        this.state = this.createInitialState();
-      }
-    } else {
-      this.state = this.createInitialState();
-    }
+    const runState = this.store.loadRunState<Pick<AuthorRepositoryFinderState, "last_updated" | "current_author_index">>("authors");
+    this.state = {
+      ...(runState ?? this.createInitialState()),
+      processed_authors: this.store.loadAuthors(),
+      discovered_repositories: this.store.loadDiscoveredRepositories()
+    };
   }
 
   private createInitialState(): AuthorRepositoryFinderState {
@@ -106,24 +78,43 @@ export class AuthorRepositoryFinder {
 
   private saveState(): void {
     this.state.last_updated = new Date().toISOString();
-    fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    this.store.saveRunState("authors", {
+      last_updated: this.state.last_updated,
+      current_author_index: this.state.current_author_index
+    });
+  }
+
+  private setAuthorRecord(author: string, record: AuthorRecord): void {
+    this.state.processed_authors[author] = record;
+    this.store.saveAuthor(author, record);
   }
 
   private async fetchUserRepositories(username: string): Promise<GitHubRepository[]> {
     const allRepos: GitHubRepository[] = [];
     let page = 1;
     const perPage = 100;
+    let rateLimitedAttempts = 0;
 
     while (true) {
-      const url = `https://api.github.com/users/${username}/repos?per_page=${perPage}&page=${page}`;
+      const url = `${this.tokens.apiUrl}/users/${username}/repos?per_page=${perPage}&page=${page}`;
       
       try {
-        const response = await fetch(url, {
+        const response = await this.scheduler.run(url, (token) => fetch(url, {
           headers: {
-            'Authorization': `token ${this.githubToken}`,
+            'Authorization': `token ${token}`,
             'Accept': 'application/vnd.github.v3+json',
           },
-        });
+        }));
+
+        // The pool has recorded the exhausted budget; retry on another token or after the reset
+        if ((response.status === 403 || response.status === 429) && response.headers.get("X-RateLimit-Remaining") === "0") {
+          if (++rateLimitedAttempts >= MAX_RATE_LIMIT_ATTEMPTS) {
+            throw new Error(`Still rate limited after ${rateLimitedAttempts} attempts`);
+          }
+          console.warn(`  Rate limited while fetching ${username}, retrying...`);
+          continue;
+        }
+        rateLimitedAttempts = 0;
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -148,7 +139,7 @@ export class AuthorRepositoryFinder {
         page++;
         
         // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100));
+        await new Promise(resolve => setTimeout(resolve, this.settings.pageDelayMs));
       } catch (error) {
         console.error(`Error fetching repositories for ${username}:`, error);
         throw error;
@@ -167,18 +158,20 @@ export class AuthorRepositoryFinder {
       console.log(`  Cloning ${repoFullName}...`);
       execSync(`git clone --depth 1 --quiet ${cloneUrl} ${tempDir}`, { 
         stdio: 'ignore',
-        timeout: 30000 // 30 second timeout
+        timeout: this.settings.cloneTimeoutMs
       });
 
-      // Search for Oxide plugins using grep
+      // Search for plugins by their discovery signatures using grep (fixed strings,
+      // passed without a shell)
       try {
-        const result = execSync(
-          `grep -r --include="*.cs" "namespace Oxide.Plugins" ${tempDir}`,
-          { encoding: 'utf8', timeout: 10000 }
+        const result = execFileSync(
+          "grep",
+          ["-rlF", "--include=*.cs", ...this.signatures.flatMap(signature => ["-e", signature]), tempDir],
+          { encoding: 'utf8', timeout: this.settings.searchTimeoutMs }
         );
         
         if (result.trim()) {
-          console.log(`  Found Oxide plugins in ${repoFullName}`);
+          console.log(`  Found plugins in ${repoFullName}`);
           return true;
         }
       } catch (grepError) {
@@ -208,55 +201,25 @@ export class AuthorRepositoryFinder {
     }
   }
 
-  private getAuthorsFromPluginFiles(): string[] {
-    const authors = new Set<string>();
-    
-    // Read oxide_plugins.json
-    const oxidePluginsPath = path.join(this.outputDir, "oxide_plugins.json");
-    if (fs.existsSync(oxidePluginsPath)) {
-      try {
-        const oxideData: OxidePluginData = JSON.parse(fs.readFileSync(oxidePluginsPath, 'utf-8'));
-        oxideData.items.forEach(item => {
-          if (item.repository?.owner_login) {
-            authors.add(item.repository.owner_login);
-          }
-        });
-      } catch (error) {
-        console.error("Error reading oxide_plugins.json:", error);
-      }
-    }
-
-    // Read crawled_plugins.json
-    const crawledPluginsPath = path.join(this.outputDir, "crawled_plugins.json");
-    if (fs.existsSync(crawledPluginsPath)) {
-      try {
-        const crawledData: CrawledPluginData = JSON.parse(fs.readFileSync(crawledPluginsPath, 'utf-8'));
-        crawledData.items.forEach(item => {
-          if (item.repository?.owner_login) {
-            authors.add(item.repository.owner_login);
-          }
-        });
-      } catch (error) {
-        console.error("Error reading crawled_plugins.json:", error);
-      }
-    }
-
-    return Array.from(authors);
+  // Owners of indexed and crawled plugin repositories
+  private getPluginAuthors(): string[] {
+    return this.store.listRepositoryOwners();
   }
 
   private saveDiscoveredRepositories(): void {
-    const outputData: FoundRepositoryData = {
+    const repositories = [...new Set(this.state.discovered_repositories)].sort();
+    const outputData: Omit<AuthorDiscoveredRepositoriesFile, "schema_version"> = {
       generated_at: new Date().toISOString(),
       source: "Author repository discovery from plugin authors",
-      count: this.state.discovered_repositories.length,
-      repositories: [...new Set(this.state.discovered_repositories)].sort()
+      count: repositories.length,
+      repositories
     };
 
-    fs.writeFileSync(this.outputFile, JSON.stringify(outputData, null, 2));
+    writePublishedFile(this.outputDir, "author_discovered_repositories.json", outputData);
   }
 
   async processAuthors(): Promise<void> {
-    const authors = this.getAuthorsFromPluginFiles();
+    const authors = this.getPluginAuthors();
     console.log(`Found ${authors.length} unique authors to process`);
 
     const startIndex = this.state.current_author_index;
@@ -267,13 +230,13 @@ export class AuthorRepositoryFinder {
       
       this.state.current_author_index = i;
 
-      // Skip if recently processed (within last 7 days)
+      // Skip if recently processed
       const authorData = this.state.processed_authors[author];
       if (authorData) {
         const lastProcessed = new Date(authorData.last_processed);
         const daysSinceProcessed = (Date.now() - lastProcessed.getTime()) / (1000 * 60 * 60 * 24);
         
-        if (daysSinceProcessed < 7) {
+        if (daysSinceProcessed < this.settings.reprocessAfterDays) {
           console.log(`Skipping ${author} - processed ${Math.floor(daysSinceProcessed)} days ago`);
           continue;
         }
@@ -287,14 +250,14 @@ export class AuthorRepositoryFinder {
         console.log(`Found ${userRepos.length} repositories for ${author}`);
 
         // Skip authors with too many repositories (likely organizations or very active users)
-        if (userRepos.length > 100) {
+        if (userRepos.length > this.settings.maxRepositoriesPerAuthor) {
           console.log(`  Skipping ${author} - too many repositories (${userRepos.length}), likely an organization`);
-          this.state.processed_authors[author] = {
+          this.setAuthorRecord(author, {
             last_processed: new Date().toISOString(),
             repositories_found: 0,
             success: true,
             error: `Skipped - too many repositories (${userRepos.length})`
-          };
+          });
           continue;
         }
 
@@ -308,30 +271,31 @@ export class AuthorRepositoryFinder {
             foundPluginRepos++;
             if (!this.state.discovered_repositories.includes(repo.full_name)) {
               this.state.discovered_repositories.push(repo.full_name);
+              this.store.addDiscoveredRepositories([repo.full_name]);
               console.log(`  Discovered new plugin repository: ${repo.full_name}`);
             }
           }
 
           // Small delay between repositories
-          await new Promise(resolve => setTimeout(resolve, 500));
+          await new Promise(resolve => setTimeout(resolve, this.settings.repositoryDelayMs));
         }
 
-        this.state.processed_authors[author] = {
+        this.setAuthorRecord(author, {
           last_processed: new Date().toISOString(),
           repositories_found: foundPluginRepos,
           success: true
-        };
+        });
 
         console.log(`Completed ${author}: found ${foundPluginRepos} plugin repositories`);
 
       } catch (error) {
         console.error(`Failed to process ${author}:`, error);
-        this.state.processed_authors[author] = {
+        this.setAuthorRecord(author, {
           last_processed: new Date().toISOString(),
           repositories_found: 0,
           success: false,
           error: error instanceof Error ? error.message : String(error)
-        };
+        });
       }
 
       // Save state periodically
@@ -339,7 +303,7 @@ export class AuthorRepositoryFinder {
       this.saveDiscoveredRepositories();
 
       // Add delay between authors
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await new Promise(resolve => setTimeout(resolve, this.settings.authorDelayMs));
     }
 
     // Reset index for next cycle
@@ -348,6 +312,10 @@ export class AuthorRepositoryFinder {
     this.saveDiscoveredRepositories();
 
     console.log(`Completed processing all authors. Total discovered repositories: ${this.state.discovered_repositories.length}`);
+    console.log(`GitHub API: ${this.scheduler.report()}`);
+    for (const line of this.tokens.report()) {
+      console.log(`  ${line}`);
+    }
   }
 
   async run(): Promise<void> {
@@ -356,11 +324,11 @@ export class AuthorRepositoryFinder {
     while (true) {
       try {
         await this.processAuthors();
-        console.log("Cycle completed. Waiting 1 hour before next cycle...");
-        await new Promise(resolve => setTimeout(resolve, 60 * 60 * 1000)); // 1 hour
+        console.log(`Cycle completed. Waiting ${Math.round(this.settings.cycleDelayMs / 60000)} minutes before next cycle...`);
+        await new Promise(resolve => setTimeout(resolve, this.settings.cycleDelayMs));
       } catch (error) {
         console.error("Error in main loop:", error);
-        await new Promise(resolve => setTimeout(resolve, 5 * 60 * 1000)); // 5 minutes on error
+        await new Promise(resolve => setTimeout(resolve, this.settings.errorRetryDelayMs));
       }
     }
   }
@@ -368,20 +336,20 @@ export class AuthorRepositoryFinder {
 
 // CLI usage
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const githubToken = process.env.GITHUB_TOKEN;
+  const tokens = GitHubTokenPool.fromEnv(getConfig().github.apiUrl);
   
-  if (!githubToken) {
-    console.error("Please set GITHUB_TOKEN environment variable");
+  if (tokens.size === 0) {
+    console.error("Please set GITHUB_TOKEN, GITHUB_TOKENS or GitHub App credentials");
     process.exit(1);
   }
 
   async function main() {
     try {
       console.log("Starting standalone Author Repository Finder...");
-      const finder = new AuthorRepositoryFinder(githubToken);
+      const finder = new AuthorRepositoryFinder(tokens);
       
       // Check if we want to run once or continuously
-      const continuous = (process.env.CONTINUOUS ?? "false").toLowerCase() === "true";
+      const continuous = getConfig().authorFinder.continuous;
       
       if (continuous) {
         console.log("Running in continuous mode...");
@@ -0,0 +1,295 @@
+import fs from "node:fs";
+import path from "node:path";
+import { getConfig, type PipelineConfig } from "./config.js";
+import type { PluginSource, PluginStore } from "./plugin-store.js";
+import { writePublishedFile } from "./published-schemas.js";
+import type { Changeset, PluginChange, RemovalReason } from "./published-types.js";
+
+// Changesets of the indexer and crawler runs: what each run added, updated and
+// removed. They are kept in the store for changelog.retainDays and published as
+// changelog.json plus Atom/RSS feeds (feeds/plugins.atom, feeds/plugins.rss and
+// feeds/authors/<author>.atom) next to the plugin exports.
+
+type ChangelogSettings = PipelineConfig["changelog"];
+
+type ChangeKind = PluginChange["kind"];
+
+// Fields shared by indexed and crawled entries
+export type ChangedPlugin = {
+  plugin_name: string;
+  plugin_author?: string | null;
+  plugin_version?: string | null;
+  plugin_class?: string; // crawled entries; a file may declare several plugins
+  file: { path: string; html_url: string; sha?: string };
+  repository: { full_name: string; html_url: string; owner_login: string };
+  removed_reason?: RemovalReason;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function describeChange(kind: ChangeKind, plugin: ChangedPlugin, previous?: ChangedPlugin): PluginChange {
+  const change: PluginChange = {
+    kind,
+    changed_at: new Date().toISOString(),
+    plugin_name: plugin.plugin_name,
+    plugin_author: plugin.plugin_author || null,
+    plugin_version: plugin.plugin_version ?? null,
+    repo_full_name: plugin.repository.full_name,
+    repo_owner: plugin.repository.owner_login,
+    repo_html_url: plugin.repository.html_url,
+    file_path: plugin.file.path,
+    file_html_url: plugin.file.html_url
+  };
+  if (plugin.file.sha) change.sha = plugin.file.sha;
+  if (previous) {
+    change.previous_version = previous.plugin_version ?? null;
+    if (previous.file.sha) change.previous_sha = previous.file.sha;
+  }
+  if (kind === "removed" && plugin.removed_reason) change.removed_reason = plugin.removed_reason;
+  return change;
+}
+
+function pluginIdentity(plugin: ChangedPlugin): string {
+  return plugin.plugin_class ? `${plugin.file.path}#${plugin.plugin_class}` : plugin.file.path;
+}
+
+// Pairs each entry of a fresh scan of a repository with its stored entry, by file
+// path and plugin class (entries stored without a class match the first plugin of
+// their file); `unmatched` are the stored entries the scan no longer found
+export function matchRepositoryPlugins<T extends ChangedPlugin>(previous: T[], current: T[]): { pairs: { plugin: T; previous?: T }[]; unmatched: T[] } {
+  const previousById = new Map(previous.map(p => [pluginIdentity(p), p]));
+  const matched = new Set<T>();
+  const pairs: { plugin: T; previous?: T }[] = [];
+  for (const plugin of current) {
+    let before = previousById.get(pluginIdentity(plugin));
+    if (!before && plugin.plugin_class) {
+      const legacy = previousById.get(plugin.file.path);
+      if (legacy && !matched.has(legacy)) before = legacy;
+    }
+    if (before) matched.add(before);
+    pairs.push(before ? { plugin, previous: before } : { plugin });
+  }
+  return { pairs, unmatched: previous.filter(p => !matched.has(p)) };
+}
+
+// Collects the changes of one run and stores them with the run's records. The
+// first run of a source has nothing to compare against, so a recorder created
+// with `enabled` false only counts.
+export class ChangeRecorder {
+  readonly runId: string;
+  private pending: PluginChange[] = [];
+  private counts: Record<ChangeKind, number> = { added: 0, updated: 0, removed: 0 };
+
+  constructor(private store: PluginStore, source: PluginSource, private enabled = true) {
+    const startedAt = new Date().toISOString();
+    this.runId = `${source}-${startedAt}`;
+    if (enabled) store.startChangeset(this.runId, source, startedAt);
+  }
+
+  get total(): number {
+    return this.counts.added + this.counts.updated + this.counts.removed;
+  }
+
+  record(kind: ChangeKind, plugin: ChangedPlugin, previous?: ChangedPlugin): void {
+    this.counts[kind]++;
+    if (this.enabled) this.pending.push(describeChange(kind, plugin, previous));
+  }
+
+  // Stores the pending changes; call it in the transaction that stores the records
+  flush(): void {
+    if (this.pending.length === 0) return;
+    this.store.recordChanges(this.runId, this.pending);
+    this.pending = [];
+  }
+
+  finish(): void {
+    this.flush();
+    if (this.enabled) this.store.completeChangeset(this.runId);
+  }
+
+  summary(): string {
+    const suffix = this.enabled ? "" : " (first run, not recorded)";
+    return `${this.counts.added} added, ${this.counts.updated} updated, ${this.counts.removed} removed${suffix}`;
+  }
+}
+
+// Writes changelog.json and the feeds from the changesets within the retention
+// window; older changesets are dropped from the store
+export function publishChangelog(store: PluginStore, outputDir: string, settings: ChangelogSettings = getConfig().changelog): void {
+  const since = new Date(Date.now() - settings.retainDays * DAY_MS).toISOString();
+  store.deleteChangesetsBefore(since);
+  const changesets = store.loadChangesets(since);
+  writePublishedFile(outputDir, "changelog.json", {
+    generated_at: new Date().toISOString(),
+    since,
+    count: changesets.length,
+    changesets
+  });
+  writeFeeds(outputDir, changesets, settings);
+}
+
+export function changelogExists(outputDir: string): boolean {
+  return fs.existsSync(path.join(outputDir, "changelog.json"));
+}
+
+// Feeds
+
+type FeedEntry = {
+  id: string;
+  change: PluginChange;
+};
+
+type Feed = {
+  title: string;
+  file: string; // relative to the output directory
+  entries: FeedEntry[];
+};
+
+const FEED_DIR = "feeds";
+const AUTHOR_FEED_DIR = path.posix.join(FEED_DIR, "authors");
+
+// Plugins found by both the indexer and the crawler are reported by both; the
+// feeds list each change once, by its earliest report. A file may hold several
+// plugins, so changes are told apart by plugin name too.
+function feedEntries(changesets: Changeset[]): FeedEntry[] {
+  const seen = new Set<string>();
+  const ids = new Set<string>();
+  const entries: FeedEntry[] = [];
+  for (const changeset of [...changesets].reverse()) {
+    for (const change of changeset.changes) {
+      const location = `${change.repo_full_name}/${change.file_path}`;
+      const plugin = `${location} ${change.plugin_name}`;
+      const dedupeKey = change.kind === "updated" ? `updated ${plugin} ${change.plugin_version}` : `${change.kind} ${plugin}`;
+      if (seen.has(dedupeKey)) continue;
+      seen.add(dedupeKey);
+      let id = `urn:oxide-plugins:${changeset.run_id}:${change.kind}:${location}`;
+      if (ids.has(id)) id += `#${encodeURIComponent(change.plugin_name)}`;
+      ids.add(id);
+      entries.push({ id, change });
+    }
+  }
+  return entries.reverse();
+}
+
+function authorOf(change: PluginChange): string {
+  return change.plugin_author?.trim() || change.repo_owner;
+}
+
+function authorSlug(author: string): string {
+  return author.toLowerCase().replace(/[^a-z0-9._-]+/g, "-").replace(/^[-.]+|-+$/g, "") || "unknown";
+}
+
+function entryTitle(change: PluginChange): string {
+  const version = change.plugin_version ? ` ${change.plugin_version}` : "";
+  switch (change.kind) {
+    case "added":
+      return `New: ${change.plugin_name}${version}`;
+    case "updated":
+      return change.previous_version && change.previous_version !== change.plugin_version
+        ? `Updated: ${change.plugin_name} ${change.previous_version} → ${change.plugin_version ?? "unversioned"}`
+        : `Updated: ${change.plugin_name}${version}`;
+    case "removed":
+      return `Removed: ${change.plugin_name}${version}`;
+  }
+}
+
+function entrySummary(change: PluginChange): string {
+  const reason = change.removed_reason ? ` (${change.removed_reason.replace(/_/g, " ")})` : "";
+  return `${change.plugin_name} by ${authorOf(change)} in ${change.repo_full_name}/${change.file_path}${reason}`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderAtom(feed: Feed, baseUrl: string, updated: string): string {
+  const selfUrl = `${baseUrl}/${feed.file}`;
+  const entries = feed.entries.map(({ id, change }) => `  <entry>
+    <title>${escapeXml(entryTitle(change))}</title>
+    <id>${escapeXml(id)}</id>
+    <link href="${escapeXml(change.file_html_url)}"/>
+    <updated>${change.changed_at}</updated>
+    <author><name>${escapeXml(authorOf(change))}</name></author>
+    <category term="${change.kind}"/>
+    <summary>${escapeXml(entrySummary(change))}</summary>
+  </entry>
+`).join("");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <id>${escapeXml(selfUrl)}</id>
+  <link rel="self" href="${escapeXml(selfUrl)}"/>
+  <updated>${feed.entries[0]?.change.changed_at ?? updated}</updated>
+${entries}</feed>
+`;
+}
+
+function renderRss(feed: Feed, baseUrl: string, updated: string): string {
+  const selfUrl = `${baseUrl}/${feed.file}`;
+  const items = feed.entries.map(({ id, change }) => `    <item>
+      <title>${escapeXml(entryTitle(change))}</title>
+      <link>${escapeXml(change.file_html_url)}</link>
+      <guid isPermaLink="false">${escapeXml(id)}</guid>
+      <pubDate>${new Date(change.changed_at).toUTCString()}</pubDate>
+      <category>${change.kind}</category>
+      <description>${escapeXml(entrySummary(change))}</description>
+    </item>
+`).join("");
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(`${baseUrl}/changelog.json`)}</link>
+    <description>New, updated and removed Oxide plugins</description>
+    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>
+    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(selfUrl)}"/>
+${items}  </channel>
+</rss>
+`;
+}
+
+function writeFeedFile(outputDir: string, file: string, content: string): void {
+  const filePath = path.join(outputDir, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  fs.writeFileSync(tmp, content, "utf8");
+  fs.renameSync(tmp, filePath);
+}
+
+function writeFeeds(outputDir: string, changesets: Changeset[], settings: ChangelogSettings): void {
+  const updated = new Date().toISOString();
+  const entries = feedEntries(changesets);
+
+  const main: Feed = { title: "Oxide plugins: new and updated", file: path.posix.join(FEED_DIR, "plugins.atom"), entries: entries.slice(0, settings.feedEntries) };
+  writeFeedFile(outputDir, main.file, renderAtom(main, settings.feedBaseUrl, updated));
+  const rssFile = path.posix.join(FEED_DIR, "plugins.rss");
+  writeFeedFile(outputDir, rssFile, renderRss({ ...main, file: rssFile }, settings.feedBaseUrl, updated));
+
+  // Authors whose slugs collide share a feed
+  const byAuthor = new Map<string, { author: string; entries: FeedEntry[] }>();
+  for (const entry of entries) {
+    const author = authorOf(entry.change);
+    const slug = authorSlug(author);
+    const group = byAuthor.get(slug) ?? { author, entries: [] };
+    group.entries.push(entry);
+    byAuthor.set(slug, group);
+  }
+  const authorFiles = new Set<string>();
+  for (const [slug, group] of byAuthor) {
+    const file = `${slug}.atom`;
+    authorFiles.add(file);
+    const feed: Feed = {
+      title: `Oxide plugins by ${group.author}`,
+      file: path.posix.join(AUTHOR_FEED_DIR, file),
+      entries: group.entries.slice(0, settings.feedEntries)
+    };
+    writeFeedFile(outputDir, feed.file, renderAtom(feed, settings.feedBaseUrl, updated));
+  }
+
+  // Authors without changes in the retention window
+  const authorDir = path.join(outputDir, AUTHOR_FEED_DIR);
+  if (!fs.existsSync(authorDir)) return;
+  for (const file of fs.readdirSync(authorDir, { withFileTypes: true })) {
+    if (file.isFile() && !authorFiles.has(file.name)) fs.rmSync(path.join(authorDir, file.name));
+  }
+}
@@ -0,0 +1,420 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { GitHubTokenPool } from "./github-token-pool.js";
+import { ConfigError, configFilePath, getConfig } from "./config.js";
+import { closeStore, getStore } from "./plugin-store.js";
+import { CRAWL_FAILURE_CATEGORIES, isRetryDue } from "./crawl-failures.js";
+
+// Single entry point for the backend stages:
+//   node dist/cli.js <command> [options]
+// Exit codes: 0 success, 1 the command failed, 2 invalid usage or configuration.
+// Stage modules are imported on demand so a broken config is reported, not thrown at load.
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const STAGES = ["index", "crawl", "authors"] as const;
+
+type Stage = typeof STAGES[number];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+type Command = {
+  summary: string;
+  usage: string;
+  options: NonNullable<Parameters<typeof parseArgs>[0]>["options"];
+  run: (values: OptionValues, positionals: string[]) => Promise<void>;
+};
+
+const HELP_OPTION = { help: { type: "boolean", short: "h" } } as const;
+
+function parseIntegerOption(name: string, value: OptionValues[string], fallback: number): number {
+  if (typeof value !== "string") return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new UsageError(`--${name} expects a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// --continuous and --no-continuous override the configured mode either way
+function parseContinuousOption(values: OptionValues, configured: boolean): boolean {
+  if (values.continuous === true && values["no-continuous"] === true) {
+    throw new UsageError("--continuous and --no-continuous cannot be combined");
+  }
+  if (values.continuous === true) return true;
+  if (values["no-continuous"] === true) return false;
+  return configured;
+}
+
+// Accepts owner/name or a GitHub URL
+function parseRepositoryName(input: string): string {
+  const match = input.match(/^(?:https?:\/\/github\.com\/)?([\w.-]+\/[\w.-]+?)(?:\.git)?\/?$/);
+  if (!match?.[1]) {
+    throw new UsageError(`Expected a repository as owner/name or a GitHub URL, got "${input}"`);
+  }
+  return match[1];
+}
+
+function countLeafPartitions(partition: unknown): number {
+  if (!partition || typeof partition !== "object") return 0;
+  const children = (partition as { children?: unknown[] }).children;
+  if (!children) return 1;
+  return children.reduce<number>((sum, child) => sum + countLeafPartitions(child), 0);
+}
+
+function countKeys(value: unknown): number {
+  return value && typeof value === "object" ? Object.keys(value).length : 0;
+}
+
+function summarizeStage(stage: Stage): Record<string, unknown> | null {
+  const store = getStore();
+  const state = store.loadRunState<Record<string, unknown>>(stage);
+  if (!state) return null;
+
+  switch (stage) {
+    case "index": {
+      const searches = (state.searches ?? []) as { query: string; partitionTree: unknown }[];
+      return {
+        schema_version: state.schema_version,
+        queries: searches.map(s => s.query),
+        plugins: store.countPlugins("index"),
+        partitions: searches.reduce((sum, s) => sum + countLeafPartitions(s.partitionTree), 0),
+        current_search: state.currentSearch,
+        current_partition: state.currentPartition,
+        current_page: state.currentPage,
+        seen_in_current_scan: countKeys(state.seenKeys),
+        cached_repositories: countKeys(store.loadRepositories()),
+        last_full_scan_at: state.lastFullScanAt
+      };
+    }
+    case "crawl": {
+      const session = state.latest_session_statistics as { crawl_session?: { completed_at?: string } } | undefined;
+      const failures = Object.values(store.loadCrawlStatus()).filter(status => !status.success);
+      const now = Date.now();
+      return {
+        schema_version: state.schema_version,
+        last_updated: state.last_updated,
+        plugins: store.countPlugins("crawl"),
+        repositories_processed: state.total_repositories_processed,
+        successful: state.successful_crawls,
+        failed: state.failed_crawls,
+        // Failures recorded before they were categorized count as unknown
+        failures_by_category: Object.fromEntries(CRAWL_FAILURE_CATEGORIES.flatMap(category => {
+          const count = failures.filter(status => (status.failure?.category ?? "unknown") === category).length;
+          return count > 0 ? [[category, count]] : [];
+        })),
+        failures_due_for_retry: failures.filter(status => isRetryDue(status.failure, now)).length,
+        last_session_completed_at: session?.crawl_session?.completed_at ?? null
+      };
+    }
+    case "authors": {
+      const authors = Object.values(store.loadAuthors());
+      return {
+        schema_version: state.schema_version,
+        last_updated: state.last_updated,
+        current_author_index: state.current_author_index,
+        authors_processed: authors.length,
+        authors_failed: authors.filter(a => !a.success).length,
+        discovered_repositories: store.loadDiscoveredRepositories().length
+      };
+    }
+  }
+}
+
+function createTokenPool(): GitHubTokenPool {
+  const tokens = GitHubTokenPool.fromEnv(getConfig().github.apiUrl);
+  if (tokens.size === 0) {
+    throw new Error("No GitHub credentials. Export GITHUB_TOKEN, GITHUB_TOKENS or GitHub App credentials.");
+  }
+  return tokens;
+}
+
+const COMMANDS: Record<string, Command> = {
+  index: {
+    summary: "Scan GitHub code search and update output/oxide_plugins.json",
+    usage: `Usage: cli index [options]
+
+Options:
+  --continuous          Keep scanning, sleeping between cycles (config indexer.continuous)
+  --no-continuous       Scan once even if indexer.continuous is set
+  --cycle-delay <ms>    Delay between continuous cycles (config indexer.cycleDelayMs)
+  --no-authors          Do not run the author repository finder after scans
+  -h, --help            Show this help`,
+    options: {
+      ...HELP_OPTION,
+      continuous: { type: "boolean" },
+      "no-continuous": { type: "boolean" },
+      "cycle-delay": { type: "string" },
+      "no-authors": { type: "boolean" }
+    },
+    run: async (values) => {
+      const { runIndexer } = await import("./index.js");
+      await runIndexer({
+        continuous: parseContinuousOption(values, getConfig().indexer.continuous),
+        cycleDelayMs: parseIntegerOption("cycle-delay", values["cycle-delay"], getConfig().indexer.cycleDelayMs),
+        authorFinder: values["no-authors"] !== true
+      });
+    }
+  },
+
+  crawl: {
+    summary: "Clone indexed, manual and author-discovered repositories and scan them for plugins",
+    usage: `Usage: cli crawl [options]
+
+Repositories already recorded in the pipeline database are crawled again only
+when their default branch moved (checked every crawler.recrawlAfterHours);
+use "recrawl <repo>" for a single repository or "reset crawl" for all of them.
+
+Failed repositories are skipped until they are retried with --retry-failed, each
+after a backoff that depends on why it failed.
+
+Options:
+  --retry-failed        Only crawl failed repositories whose retry is due
+  -h, --help            Show this help`,
+    options: {
+      ...HELP_OPTION,
+      "retry-failed": { type: "boolean" }
+    },
+    run: async (values) => {
+      const { withCrawler } = await import("./repository-crawler.js");
+      await withCrawler((crawler) => crawler.crawlRepositories({ retryFailed: values["retry-failed"] === true }));
+    }
+  },
+
+  authors: {
+    summary: "Look for plugin repositories among the repositories of known authors",
+    usage: `Usage: cli authors [options]
+
+Options:
+  --continuous          Repeat after authorFinder.cycleDelayMs (config authorFinder.continuous)
+  --no-continuous       Run once even if authorFinder.continuous is set
+  -h, --help            Show this help`,
+    options: {
+      ...HELP_OPTION,
+      continuous: { type: "boolean" },
+      "no-continuous": { type: "boolean" }
+    },
+    run: async (values) => {
+      const { AuthorRepositoryFinder } = await import("./author-repository-finder.js");
+      const finder = new AuthorRepositoryFinder(createTokenPool());
+      if (parseContinuousOption(values, getConfig().authorFinder.continuous)) {
+        await finder.run();
+      } else {
+        await finder.processAuthors();
+      }
+    }
+  },
+
+  status: {
+    summary: "Summarize the state of every stage",
+    usage: `Usage: cli status [options]
+
+Options:
+  --json                Print the summary as JSON
+  -h, --help            Show this help`,
+    options: {
+      ...HELP_OPTION,
+      json: { type: "boolean" }
+    },
+    run: async (values) => {
+      // Opening the store would create it and import the JSON files; status only reads
+      const databasePath = getConfig().paths.database;
+      const hasStore = fs.existsSync(databasePath);
+      const summary = Object.fromEntries(STAGES.map(stage => [stage, hasStore ? summarizeStage(stage) : null]));
+      if (values.json === true) {
+        console.log(JSON.stringify(summary, null, 2));
+        return;
+      }
+      console.log(`# ${path.relative(process.cwd(), databasePath)}${hasStore ? "" : " (no store yet)"}`);
+      for (const stage of STAGES) {
+        console.log(stage);
+        const stageSummary = summary[stage];
+        if (!stageSummary) {
+          console.log("  no state yet");
+          continue;
+        }
+        for (const [key, value] of Object.entries(stageSummary)) {
+          const text = Array.isArray(value)
+            ? value.join(", ") || "-"
+            : value && typeof value === "object"
+              ? Object.entries(value).map(([name, count]) => `${name}=${count}`).join(", ") || "-"
+              : value ?? "-";
+          console.log(`  ${key}: ${text}`);
+        }
+      }
+    }
+  },
+
+  config: {
+    summary: "Validate the configuration and print the effective settings",
+    usage: `Usage: cli config [options]
+
+Prints the settings after applying the config file and environment overrides.
+
+Options:
+  -h, --help            Show this help`,
+    options: { ...HELP_OPTION },
+    run: async () => {
+      const config = getConfig();
+      const filePath = configFilePath();
+      console.log(`# ${fs.existsSync(filePath) ? filePath : "defaults (no config file)"}`);
+      console.log(JSON.stringify(config, null, 2));
+    }
+  },
+
+  recrawl: {
+    summary: "Crawl a single repository again and replace its results",
+    usage: `Usage: cli recrawl <owner/name | GitHub URL> [options]
+
+Options:
+  -h, --help            Show this help`,
+    options: { ...HELP_OPTION },
+    run: async (_values, positionals) => {
+      if (positionals.length !== 1 || !positionals[0]) {
+        throw new UsageError("recrawl expects exactly one repository");
+      }
+      const repo = parseRepositoryName(positionals[0]);
+      const { withCrawler } = await import("./repository-crawler.js");
+      await withCrawler((crawler) => crawler.recrawlRepository(repo));
+    }
+  },
+
+  migrate: {
+    summary: "Upgrade stored state and output files to the current format versions",
+    usage: `Usage: cli migrate [<file>...] [options]
+
+Without files, upgrades the run state of every stage in the pipeline database and
+the published files in the output directory. Files are upgraded in place; they are
+recognized by name (oxide_plugins.json, crawled_plugins.json,
+author_discovered_repositories.json and the legacy state.json, crawler_state.json,
+author_finder_state.json).
+
+Options:
+  --dry-run             Report what would be migrated without writing
+  -h, --help            Show this help`,
+    options: {
+      ...HELP_OPTION,
+      "dry-run": { type: "boolean" }
+    },
+    run: async (values, positionals) => {
+      const { fileKind, migrateFile } = await import("./migrations.js");
+      const dryRun = values["dry-run"] === true;
+      const report = (label: string, from: number, applied: string[]) => {
+        if (applied.length === 0) {
+          console.log(`${label}: version ${from}, up to date`);
+          return;
+        }
+        console.log(`${label}: ${dryRun ? "would migrate" : "migrated"} from version ${from}`);
+        for (const step of applied) console.log(`  ${step}`);
+      };
+
+      const files = positionals.length > 0
+        ? positionals.map(file => path.resolve(file))
+        : ["oxide_plugins.json", "crawled_plugins.json", "author_discovered_repositories.json"]
+          .map(file => path.join(getConfig().paths.outputDir, file))
+          .filter(file => fs.existsSync(file));
+      const kinds = files.map((file) => {
+        const kind = fileKind(file);
+        if (!kind) throw new UsageError(`Unrecognized file name: ${file}`);
+        return kind;
+      });
+
+      if (positionals.length === 0) {
+        for (const { stage, from, applied } of getStore().migrateRunStates(dryRun)) {
+          report(`${stage} state`, from, applied);
+        }
+      }
+      files.forEach((file, i) => {
+        const { from, applied } = migrateFile(file, kinds[i]!, dryRun);
+        report(path.relative(process.cwd(), file), from, applied);
+      });
+    }
+  },
+
+  reset: {
+    summary: "Forget a stage's progress so its next run starts over",
+    usage: `Usage: cli reset <${STAGES.join(" | ")}> [options]
+
+Clears the stage's run state, plus the per-repository crawl status (crawl) or
+the processed authors (authors). Stored plugins and exported files are kept.
+
+Options:
+  -h, --help            Show this help`,
+    options: { ...HELP_OPTION },
+    run: async (_values, positionals) => {
+      const stage = positionals[0];
+      if (positionals.length !== 1 || !stage || !STAGES.includes(stage as Stage)) {
+        throw new UsageError(`reset expects one of: ${STAGES.join(", ")}`);
+      }
+      getStore().resetStage(stage as Stage);
+      console.log(`Reset ${stage} in ${path.relative(process.cwd(), getStore().filePath)}`);
+    }
+  }
+};
+
+function generalUsage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map(name => name.length));
+  const lines = Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}  ${command.summary}`);
+  return `Usage: cli <command> [options]
+
+Commands:
+${lines.join("\n")}
+
+Run "cli <command> --help" for command options.`;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === "-h" || name === "--help" || name === "help") {
+    console.log(generalUsage());
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command "${name}"\n\n${generalUsage()}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: command.options ?? {},
+      allowPositionals: true,
+      strict: true
+    });
+    if (values.help === true) {
+      console.log(command.usage);
+      return EXIT_OK;
+    }
+    await command.run(values, positionals);
+    return EXIT_OK;
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      console.error(err.message);
+      return EXIT_USAGE;
+    }
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`${(err as Error).message}\n\n${command.usage}`);
+      return EXIT_USAGE;
+    }
+    console.error(`${name} failed:`, err);
+    return EXIT_FAILURE;
+  } finally {
+    closeStore();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main(process.argv.slice(2)).then((code) => process.exit(code));
+}
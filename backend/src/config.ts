@@ -0,0 +1,331 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Pipeline configuration shared by the indexer, the repository crawler and the
+// author finder. Values come from the defaults below, then indexer.config.json
+// (or the file named by INDEXER_CONFIG), then environment variables.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type PipelineConfig = {
+  github: {
+    apiUrl: string;
+  };
+  // Relative paths resolve against the directory of the config file
+  paths: {
+    outputDir: string;
+    inputDir: string;
+    tempDir: string;
+    database: string; // empty for pipeline.db in outputDir
+    archiveRoot: string; // where archive/<2 hex>/<sha>.cs is kept; empty for outputDir
+  };
+  discovery: {
+    signatures: string[]; // literal markers of plugin sources, see discovery.ts
+  };
+  indexer: {
+    searchQuery: string; // {signature} is replaced by each discovery signature
+    concurrency: number;
+    continuous: boolean;
+    cycleDelayMs: number;
+    verifyBatchSize: number;
+    removedGraceDays: number;
+    repoCacheTtlHours: number;
+    authorFinderIntervalCycles: number;
+  };
+  crawler: {
+    skipDirectories: string[];
+    skipHiddenDirectories: boolean;
+    concurrency: number; // repositories cloned and scanned at once
+    repositoryTimeoutMs: number; // per repository, for cloning and checking out its sources
+    maxSourceFiles: number; // repositories with more .cs files are skipped
+    maxFileSizeKb: number; // larger .cs files are not analyzed
+    maxCloneSizeMb: number; // clones growing past this on disk are stopped and skipped
+    recrawlAfterHours: number; // crawled repositories are checked for new commits after this; 0 never
+    recrawlBatchSize: number; // repositories checked upstream per run
+    versionHistory: boolean; // clone full histories and read release timelines from the git log
+    versionHistoryMaxCommits: number; // commits of each plugin file read for its timeline
+  };
+  authorFinder: {
+    continuous: boolean;
+    maxRepositoriesPerAuthor: number;
+    reprocessAfterDays: number;
+    pageDelayMs: number;
+    repositoryDelayMs: number;
+    authorDelayMs: number;
+    cycleDelayMs: number;
+    errorRetryDelayMs: number;
+    cloneTimeoutMs: number;
+    searchTimeoutMs: number;
+  };
+  changelog: {
+    retainDays: number;
+    feedEntries: number;
+    feedBaseUrl: string; // where the output directory is published, for feed links
+  };
+};
+
+const DEFAULT_CONFIG: PipelineConfig = {
+  github: {
+    apiUrl: "https://api.github.com"
+  },
+  paths: {
+    outputDir: "output",
+    inputDir: "input",
+    tempDir: "temp_repos",
+    database: "",
+    archiveRoot: ""
+  },
+  discovery: {
+    signatures: ["namespace Oxide.Plugins", "namespace Carbon.Plugins"]
+  },
+  indexer: {
+    searchQuery: "{signature} in:file language:C# extension:cs",
+    concurrency: 6,
+    continuous: false,
+    cycleDelayMs: 15 * 60 * 1000,
+    verifyBatchSize: 200,
+    removedGraceDays: 30,
+    repoCacheTtlHours: 24,
+    authorFinderIntervalCycles: 24
+  },
+  crawler: {
+    skipDirectories: [".git", ".vs", ".vscode", "bin", "obj", "packages", "node_modules", ".nuget", "TestResults", ".idea"],
+    skipHiddenDirectories: true,
+    concurrency: 4,
+    repositoryTimeoutMs: 120000,
+    maxSourceFiles: 5000,
+    maxFileSizeKb: 2048,
+    maxCloneSizeMb: 512,
+    recrawlAfterHours: 24,
+    recrawlBatchSize: 500,
+    versionHistory: false,
+    versionHistoryMaxCommits: 200
+  },
+  authorFinder: {
+    continuous: false,
+    maxRepositoriesPerAuthor: 100,
+    reprocessAfterDays: 7,
+    pageDelayMs: 100,
+    repositoryDelayMs: 500,
+    authorDelayMs: 2000,
+    cycleDelayMs: 60 * 60 * 1000,
+    errorRetryDelayMs: 5 * 60 * 1000,
+    cloneTimeoutMs: 30000,
+    searchTimeoutMs: 10000
+  },
+  changelog: {
+    retainDays: 30,
+    feedEntries: 100,
+    feedBaseUrl: "https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output"
+  }
+};
+
+// Environment variable -> config path. Several variables predate the config file.
+const ENV_OVERRIDES: [string, string][] = [
+  ["GITHUB_API_URL", "github.apiUrl"],
+  ["OUTPUT_DIR", "paths.outputDir"],
+  ["INPUT_DIR", "paths.inputDir"],
+  ["TEMP_DIR", "paths.tempDir"],
+  ["DATABASE_FILE", "paths.database"],
+  ["SOURCE_ARCHIVE_ROOT", "paths.archiveRoot"],
+  ["DISCOVERY_SIGNATURES", "discovery.signatures"],
+  ["SEARCH_QUERY", "indexer.searchQuery"],
+  ["INDEXER_CONCURRENCY", "indexer.concurrency"],
+  // CONTINUOUS sets both stages; the stage-specific variables below take precedence
+  ["CONTINUOUS", "indexer.continuous"],
+  ["INDEXER_CONTINUOUS", "indexer.continuous"],
+  ["CYCLE_DELAY_MS", "indexer.cycleDelayMs"],
+  ["VERIFY_BATCH_SIZE", "indexer.verifyBatchSize"],
+  ["REMOVED_GRACE_DAYS", "indexer.removedGraceDays"],
+  ["REPO_CACHE_TTL_HOURS", "indexer.repoCacheTtlHours"],
+  ["AUTHOR_FINDER_INTERVAL_CYCLES", "indexer.authorFinderIntervalCycles"],
+  ["CRAWLER_SKIP_DIRECTORIES", "crawler.skipDirectories"],
+  ["CRAWLER_SKIP_HIDDEN_DIRECTORIES", "crawler.skipHiddenDirectories"],
+  ["CRAWLER_CONCURRENCY", "crawler.concurrency"],
+  ["CRAWLER_REPOSITORY_TIMEOUT_MS", "crawler.repositoryTimeoutMs"],
+  ["CRAWLER_MAX_SOURCE_FILES", "crawler.maxSourceFiles"],
+  ["CRAWLER_MAX_FILE_SIZE_KB", "crawler.maxFileSizeKb"],
+  ["CRAWLER_MAX_CLONE_SIZE_MB", "crawler.maxCloneSizeMb"],
+  ["CRAWLER_RECRAWL_AFTER_HOURS", "crawler.recrawlAfterHours"],
+  ["CRAWLER_RECRAWL_BATCH_SIZE", "crawler.recrawlBatchSize"],
+  ["CRAWLER_VERSION_HISTORY", "crawler.versionHistory"],
+  ["CRAWLER_VERSION_HISTORY_MAX_COMMITS", "crawler.versionHistoryMaxCommits"],
+  ["CONTINUOUS", "authorFinder.continuous"],
+  ["AUTHOR_FINDER_CONTINUOUS", "authorFinder.continuous"],
+  ["AUTHOR_FINDER_MAX_REPOSITORIES", "authorFinder.maxRepositoriesPerAuthor"],
+  ["AUTHOR_FINDER_REPROCESS_AFTER_DAYS", "authorFinder.reprocessAfterDays"],
+  ["AUTHOR_FINDER_PAGE_DELAY_MS", "authorFinder.pageDelayMs"],
+  ["AUTHOR_FINDER_REPOSITORY_DELAY_MS", "authorFinder.repositoryDelayMs"],
+  ["AUTHOR_FINDER_AUTHOR_DELAY_MS", "authorFinder.authorDelayMs"],
+  ["AUTHOR_FINDER_CYCLE_DELAY_MS", "authorFinder.cycleDelayMs"],
+  ["AUTHOR_FINDER_ERROR_RETRY_DELAY_MS", "authorFinder.errorRetryDelayMs"],
+  ["AUTHOR_FINDER_CLONE_TIMEOUT_MS", "authorFinder.cloneTimeoutMs"],
+  ["AUTHOR_FINDER_SEARCH_TIMEOUT_MS", "authorFinder.searchTimeoutMs"],
+  ["CHANGELOG_RETAIN_DAYS", "changelog.retainDays"],
+  ["CHANGELOG_FEED_ENTRIES", "changelog.feedEntries"],
+  ["FEED_BASE_URL", "changelog.feedBaseUrl"]
+];
+
+// Settings where zero would stall or break the pipeline
+const POSITIVE_SETTINGS = new Set(["indexer.concurrency", "indexer.verifyBatchSize", "crawler.concurrency", "crawler.repositoryTimeoutMs", "crawler.maxSourceFiles", "crawler.maxFileSizeKb", "crawler.maxCloneSizeMb", "crawler.recrawlBatchSize", "crawler.versionHistoryMaxCommits", "authorFinder.cloneTimeoutMs", "authorFinder.searchTimeoutMs", "changelog.feedEntries"]);
+
+// Lists that must name at least one value
+const NON_EMPTY_SETTINGS = new Set(["discovery.signatures"]);
+
+export class ConfigError extends Error {
+  constructor(source: string, public readonly problems: string[]) {
+    super(`Invalid configuration in ${source}:\n${problems.map(p => `  - ${p}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type ConfigValue = string | number | boolean | string[];
+type ConfigSection = Record<string, ConfigValue>;
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  return value === null ? "null" : typeof value;
+}
+
+function checkValue(key: string, value: unknown, defaultValue: ConfigValue, label = key): string | null {
+  if (Array.isArray(defaultValue)) {
+    if (!Array.isArray(value) || !value.every(v => typeof v === "string")) return `${label}: expected an array of strings, got ${describe(value)}`;
+    if (NON_EMPTY_SETTINGS.has(key) && !value.some(v => v.trim() !== "")) return `${label}: must not be empty`;
+    return null;
+  }
+  if (typeof defaultValue === "number") {
+    if (typeof value !== "number" || !Number.isFinite(value)) return `${label}: expected a number, got ${describe(value)}`;
+    if (value < 0 || (POSITIVE_SETTINGS.has(key) && value === 0)) return `${label}: must be ${POSITIVE_SETTINGS.has(key) ? "positive" : "non-negative"}, got ${value}`;
+    return null;
+  }
+  if (typeof value !== typeof defaultValue) return `${label}: expected a ${typeof defaultValue}, got ${describe(value)}`;
+  if (typeof value === "string" && value.trim() === "") return `${label}: must not be empty`;
+  return null;
+}
+
+// Checks a parsed config file against the shape of the defaults; unknown keys are
+// reported so typos don't silently fall back to a default
+function validateFile(raw: unknown, problems: string[]): Partial<Record<string, Partial<ConfigSection>>> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    problems.push(`expected an object at the top level, got ${describe(raw)}`);
+    return {};
+  }
+
+  const defaults = DEFAULT_CONFIG as unknown as Record<string, ConfigSection>;
+  const result: Record<string, Partial<ConfigSection>> = {};
+  for (const [sectionName, section] of Object.entries(raw as Record<string, unknown>)) {
+    if (sectionName === "$schema") continue;
+    const sectionDefaults = defaults[sectionName];
+    if (!sectionDefaults) {
+      problems.push(`${sectionName}: unknown section`);
+      continue;
+    }
+    if (!section || typeof section !== "object" || Array.isArray(section)) {
+      problems.push(`${sectionName}: expected an object, got ${describe(section)}`);
+      continue;
+    }
+    const values: Partial<ConfigSection> = {};
+    for (const [key, value] of Object.entries(section as Record<string, unknown>)) {
+      const defaultValue = sectionDefaults[key];
+      if (defaultValue === undefined) {
+        problems.push(`${sectionName}.${key}: unknown setting`);
+        continue;
+      }
+      const problem = checkValue(`${sectionName}.${key}`, value, defaultValue);
+      if (problem) {
+        problems.push(problem);
+      } else {
+        values[key] = value as ConfigValue;
+      }
+    }
+    result[sectionName] = values;
+  }
+  return result;
+}
+
+// Environment values are strings; coerce them to the type of the default
+function parseEnvValue(name: string, raw: string, defaultValue: ConfigValue): { value: ConfigValue } | { error: string } {
+  if (Array.isArray(defaultValue)) {
+    return { value: raw.split(",").map(v => v.trim()).filter(Boolean) };
+  }
+  if (typeof defaultValue === "number") {
+    const value = Number(raw);
+    return Number.isNaN(value) ? { error: `${name}: expected a number, got "${raw}"` } : { value };
+  }
+  if (typeof defaultValue === "boolean") {
+    const normalized = raw.toLowerCase();
+    if (normalized === "true" || normalized === "false") return { value: normalized === "true" };
+    return { error: `${name}: expected true or false, got "${raw}"` };
+  }
+  return { value: raw };
+}
+
+export function configFilePath(): string {
+  return path.resolve(process.env.INDEXER_CONFIG ?? path.join(__dirname, "..", "indexer.config.json"));
+}
+
+export function loadConfig(): PipelineConfig {
+  const filePath = configFilePath();
+  const config = structuredClone(DEFAULT_CONFIG);
+  const sections = config as unknown as Record<string, ConfigSection>;
+
+  if (fs.existsSync(filePath)) {
+    const problems: string[] = [];
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    } catch (err) {
+      throw new ConfigError(filePath, [`not valid JSON: ${(err as Error).message}`]);
+    }
+    const fromFile = validateFile(raw, problems);
+    if (problems.length > 0) {
+      throw new ConfigError(filePath, problems);
+    }
+    for (const [sectionName, values] of Object.entries(fromFile)) {
+      Object.assign(sections[sectionName] ?? {}, values);
+    }
+  } else if (process.env.INDEXER_CONFIG) {
+    throw new ConfigError(filePath, ["file not found"]);
+  }
+
+  const envProblems: string[] = [];
+  for (const [name, key] of ENV_OVERRIDES) {
+    const raw = process.env[name];
+    if (raw === undefined || raw === "") continue;
+    const [sectionName = "", settingName = ""] = key.split(".");
+    const section = sections[sectionName];
+    const defaultValue = section?.[settingName];
+    if (!section || defaultValue === undefined) continue;
+
+    const parsed = parseEnvValue(name, raw, defaultValue);
+    const problem = "error" in parsed ? parsed.error : checkValue(key, parsed.value, defaultValue, `${name} (${key})`);
+    if (problem) {
+      envProblems.push(problem);
+    } else if ("value" in parsed) {
+      section[settingName] = parsed.value;
+    }
+  }
+  if (envProblems.length > 0) {
+    throw new ConfigError("environment", envProblems);
+  }
+
+  const baseDir = path.dirname(filePath);
+  config.github.apiUrl = config.github.apiUrl.replace(/\/+$/, "");
+  config.changelog.feedBaseUrl = config.changelog.feedBaseUrl.replace(/\/+$/, "");
+  config.discovery.signatures = [...new Set(config.discovery.signatures.map(s => s.trim()).filter(Boolean))];
+  config.paths.outputDir = path.resolve(baseDir, config.paths.outputDir);
+  config.paths.inputDir = path.resolve(baseDir, config.paths.inputDir);
+  config.paths.tempDir = path.resolve(baseDir, config.paths.tempDir);
+  config.paths.database = config.paths.database ? path.resolve(baseDir, config.paths.database) : path.join(config.paths.outputDir, "pipeline.db");
+  config.paths.archiveRoot = config.paths.archiveRoot ? path.resolve(baseDir, config.paths.archiveRoot) : config.paths.outputDir;
+  return config;
+}
+
+let cachedConfig: PipelineConfig | null = null;
+
+// Loaded once per process
+export function getConfig(): PipelineConfig {
+  cachedConfig ??= loadConfig();
+  return cachedConfig;
+}
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyGitError, isRetryDue, recordFailure } from "./crawl-failures.js";
+
+const HOUR = 60 * 60 * 1000;
+
+test("git errors are categorized by their message", () => {
+  assert.equal(classifyGitError("remote: Access to this repository has been disabled by GitHub staff."), "disabled");
+  assert.equal(classifyGitError("remote: Repository not found.\nfatal: repository 'https://github.com/a/b.git/' not found"), "not_found");
+  assert.equal(classifyGitError("fatal: could not read Username for 'https://github.com': terminal prompts disabled"), "auth_required");
+  assert.equal(classifyGitError("fatal: unable to access: Could not resolve host: github.com"), "unknown");
+});
+
+test("the retry delay doubles with every further failure", () => {
+  const failedAt = new Date("2026-01-01T00:00:00.000Z");
+  const first = recordFailure("clone_timeout", undefined, failedAt);
+  assert.deepEqual(first, { category: "clone_timeout", attempts: 1, next_retry_at: new Date(failedAt.getTime() + 6 * HOUR).toISOString() });
+
+  const second = recordFailure("clone_timeout", first, failedAt);
+  assert.equal(second.attempts, 2);
+  assert.equal(second.next_retry_at, new Date(failedAt.getTime() + 12 * HOUR).toISOString());
+});
+
+test("no retry is scheduled once the attempts are used up", () => {
+  const failedAt = new Date("2026-01-01T00:00:00.000Z");
+  const first = recordFailure("too_large", undefined, failedAt);
+  const second = recordFailure("too_large", first, failedAt);
+  assert.notEqual(first.next_retry_at, null);
+  assert.equal(second.next_retry_at, null);
+  assert.equal(isRetryDue(second, failedAt.getTime() + 365 * 24 * HOUR), false);
+});
+
+test("a failure of another category starts its attempts over", () => {
+  const failedAt = new Date("2026-01-01T00:00:00.000Z");
+  const timeout = recordFailure("clone_timeout", recordFailure("clone_timeout", undefined, failedAt), failedAt);
+  const failure = recordFailure("not_found", timeout, failedAt);
+  assert.deepEqual(failure, { category: "not_found", attempts: 1, next_retry_at: new Date(failedAt.getTime() + 24 * HOUR).toISOString() });
+});
+
+test("a retry is due once its time has come, and right away for uncategorized failures", () => {
+  const failedAt = new Date("2026-01-01T00:00:00.000Z");
+  const failure = recordFailure("unknown", undefined, failedAt);
+  assert.equal(isRetryDue(failure, failedAt.getTime()), false);
+  assert.equal(isRetryDue(failure, failedAt.getTime() + HOUR), true);
+  assert.equal(isRetryDue(undefined, failedAt.getTime()), true);
+});
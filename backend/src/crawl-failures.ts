@@ -0,0 +1,73 @@
+// Categories of repository crawl failures and when each is retried. A failed
+// repository is re-attempted by `cli crawl --retry-failed` once its backoff
+// (baseDelayHours, doubled with every further failure) has passed, until it has
+// failed maxAttempts times in a row.
+
+export type CrawlFailureCategory =
+  | "clone_timeout" // cloning or checking out took longer than crawler.repositoryTimeoutMs
+  | "not_found" // the repository no longer exists
+  | "disabled" // disabled by GitHub, e.g. after a DMCA takedown
+  | "too_large" // more .cs files than crawler.maxSourceFiles, or a clone past crawler.maxCloneSizeMb
+  | "auth_required" // private, or deleted (GitHub asks anonymous clients for credentials either way)
+  | "parse_error" // cloned, but none of its sources could be read or analyzed
+  | "unknown"; // anything else, e.g. network errors
+
+export const CRAWL_FAILURE_CATEGORIES: CrawlFailureCategory[] = [
+  "clone_timeout", "not_found", "disabled", "too_large", "auth_required", "parse_error", "unknown"
+];
+
+export type CrawlFailureRecord = {
+  category: CrawlFailureCategory;
+  attempts: number; // consecutive failed crawls of this category
+  next_retry_at: string | null; // null once the retries are used up
+};
+
+type RetryPolicy = {
+  baseDelayHours: number;
+  maxAttempts: number;
+};
+
+const RETRY_POLICIES: Record<CrawlFailureCategory, RetryPolicy> = {
+  clone_timeout: { baseDelayHours: 6, maxAttempts: 4 },
+  not_found: { baseDelayHours: 24, maxAttempts: 3 },
+  disabled: { baseDelayHours: 24 * 30, maxAttempts: 2 },
+  too_large: { baseDelayHours: 24 * 7, maxAttempts: 2 },
+  auth_required: { baseDelayHours: 24, maxAttempts: 3 },
+  parse_error: { baseDelayHours: 72, maxAttempts: 3 },
+  unknown: { baseDelayHours: 1, maxAttempts: 5 }
+};
+
+export class CrawlFailure extends Error {
+  constructor(readonly category: CrawlFailureCategory, message: string) {
+    super(message);
+    this.name = "CrawlFailure";
+  }
+}
+
+// Messages of git and GitHub for each category, tried in order
+const GIT_ERROR_PATTERNS: [CrawlFailureCategory, RegExp][] = [
+  ["disabled", /access to this repository has been disabled|dmca|repository unavailable|\b451\b/i],
+  ["not_found", /repository not found|repository '.*' not found|\b404\b/i],
+  ["auth_required", /could not read username|terminal prompts disabled|authentication failed|\b401\b|\b403\b/i]
+];
+
+export function classifyGitError(message: string): CrawlFailureCategory {
+  return GIT_ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? "unknown";
+}
+
+// Attempts count consecutive failures of one category; a different cause starts over
+export function recordFailure(category: CrawlFailureCategory, previous: CrawlFailureRecord | undefined, failedAt: Date): CrawlFailureRecord {
+  const attempts = previous?.category === category ? previous.attempts + 1 : 1;
+  const policy = RETRY_POLICIES[category];
+  const delayMs = policy.baseDelayHours * 2 ** (attempts - 1) * 60 * 60 * 1000;
+  return {
+    category,
+    attempts,
+    next_retry_at: attempts < policy.maxAttempts ? new Date(failedAt.getTime() + delayMs).toISOString() : null
+  };
+}
+
+// Failures recorded before they were categorized have no record and are due right away
+export function isRetryDue(failure: CrawlFailureRecord | undefined, now: number): boolean {
+  return !failure || (failure.next_retry_at !== null && Date.parse(failure.next_retry_at) <= now);
+}
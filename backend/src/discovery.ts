@@ -0,0 +1,21 @@
+// Discovery signatures: literal markers that identify a plugin source, such as
+// "namespace Oxide.Plugins" or "namespace Carbon.Plugins" (config discovery.signatures).
+// The indexer runs one code search per signature, and the crawler and the author
+// finder accept a file that contains any of them.
+
+export const SIGNATURE_PLACEHOLDER = "{signature}";
+
+// Code search queries for the signatures; a query without the placeholder is
+// searched as is
+export function buildSearchVariants(queryTemplate: string, signatures: string[]): string[] {
+  if (!queryTemplate.includes(SIGNATURE_PLACEHOLDER)) return [queryTemplate];
+  return [...new Set(signatures.map(signature => queryTemplate.split(SIGNATURE_PLACEHOLDER).join(signature)))];
+}
+
+export function matchesSignature(source: string, signatures: string[]): boolean {
+  return signatures.some(signature => source.includes(signature));
+}
+
+export function describeSignatures(signatures: string[]): string {
+  return signatures.join(" | ");
+}
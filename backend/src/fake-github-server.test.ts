@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { FakeGitHubServer, type FakeGitHubServerOptions } from "./fake-github-server.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const OPTIONS: FakeGitHubServerOptions = {
+  port: 0,
+  fixturesDir: path.join(__dirname, "..", "fixtures", "github"),
+  record: false,
+  upstream: "https://api.github.com",
+  coreLimit: 0,
+  searchLimit: 0,
+  rateLimitWindowSec: 60
+};
+
+test("start fails when the port is in use", async () => {
+  const first = new FakeGitHubServer(OPTIONS);
+  const port = Number(new URL(await first.start()).port);
+  try {
+    const second = new FakeGitHubServer({ ...OPTIONS, port });
+    await assert.rejects(second.start(), (error: NodeJS.ErrnoException) => error.code === "EADDRINUSE");
+    await second.stop();
+  } finally {
+    await first.stop();
+  }
+});
@@ -0,0 +1,330 @@
+import fs from "node:fs";
+import path from "node:path";
+import http from "node:http";
+import crypto from "node:crypto";
+
+// A recorded (or hand-written) GitHub API response
+type FixtureResponse = {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+};
+
+// Fixture file format. `responses` are served in order; the last one repeats,
+// so a fixture like [403, 200] simulates a rate limit followed by recovery.
+type Fixture = {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  responses: FixtureResponse[];
+};
+
+type RateLimitResource = "core" | "search" | "code_search";
+
+type RateLimitBucket = {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch seconds
+};
+
+type FakeGitHubServerOptions = {
+  port: number;
+  fixturesDir: string;
+  record: boolean;
+  upstream: string;
+  // Simulated primary rate limits (requests per window), 0 disables
+  coreLimit: number;
+  searchLimit: number;
+  rateLimitWindowSec: number;
+};
+
+// Headers worth keeping in fixtures; auth and transport headers are dropped
+const RECORDED_HEADERS = [
+  "content-type",
+  "link",
+  "etag",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+  "x-ratelimit-used",
+  "x-ratelimit-resource"
+];
+
+function normalizeRequestKey(method: string, rawUrl: string, body?: string): string {
+  const url = new URL(rawUrl, "http://fake.local");
+  const params = [...url.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b));
+  const query = params.map(([k, v]) => `${k}=${v}`).join("&");
+  const bodyHash = body ? crypto.createHash("sha1").update(body).digest("hex") : "";
+  return `${method.toUpperCase()} ${decodeURIComponent(url.pathname)}?${query}#${bodyHash}`;
+}
+
+// Same resource names GitHub reports in X-RateLimit-Resource
+function rateLimitResourceFor(pathname: string): RateLimitResource {
+  if (pathname === "/search/code") return "code_search";
+  return pathname.startsWith("/search/") ? "search" : "core";
+}
+
+function listFixtureFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFixtureFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith(".json")) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// Human-readable, collision-free file name for a recorded request
+function fixtureFileName(method: string, rawUrl: string, key: string): string {
+  const url = new URL(rawUrl, "http://fake.local");
+  const segments = url.pathname.split("/").filter(Boolean).map(s => decodeURIComponent(s));
+  const dir = segments.length > 0 ? segments.slice(0, 2).join("/") : "root";
+  const slug = segments.slice(2).join("_").replace(/[^\w.-]+/g, "_").slice(0, 80) || "index";
+  const hash = crypto.createHash("sha1").update(key).digest("hex").slice(0, 10);
+  return path.join(dir, `${method.toLowerCase()}-${slug}-${hash}.json`);
+}
+
+export class FakeGitHubServer {
+  private options: FakeGitHubServerOptions;
+  private fixtures = new Map<string, Fixture>();
+  private hits = new Map<string, number>();
+  private buckets: Record<RateLimitResource, RateLimitBucket>;
+  private server: http.Server | null = null;
+
+  constructor(options: FakeGitHubServerOptions) {
+    this.options = options;
+    this.buckets = {
+      core: this.createBucket(options.coreLimit),
+      search: this.createBucket(options.searchLimit),
+      code_search: this.createBucket(options.searchLimit)
+    };
+    this.loadFixtures();
+  }
+
+  private createBucket(limit: number): RateLimitBucket {
+    return {
+      limit,
+      remaining: limit,
+      resetAt: Math.floor(Date.now() / 1000) + this.options.rateLimitWindowSec
+    };
+  }
+
+  private loadFixtures(): void {
+    this.fixtures.clear();
+    for (const file of listFixtureFiles(this.options.fixturesDir)) {
+      try {
+        const fixture = JSON.parse(fs.readFileSync(file, "utf-8")) as Fixture;
+        const key = normalizeRequestKey(fixture.request.method, fixture.request.url, fixture.request.body);
+        this.fixtures.set(key, fixture);
+      } catch (error) {
+        console.warn(`Skipping invalid fixture ${file}:`, error);
+      }
+    }
+    console.log(`Loaded ${this.fixtures.size} fixtures from ${this.options.fixturesDir}`);
+  }
+
+  // Returns a simulated 403 when the resource budget is exhausted, otherwise consumes one request
+  private consumeRateLimit(resource: RateLimitResource): { headers: Record<string, string>; limited: boolean } {
+    const bucket = this.buckets[resource];
+    if (bucket.limit <= 0) return { headers: {}, limited: false };
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now >= bucket.resetAt) {
+      bucket.remaining = bucket.limit;
+      bucket.resetAt = now + this.options.rateLimitWindowSec;
+    }
+
+    const limited = bucket.remaining <= 0;
+    if (!limited) bucket.remaining--;
+
+    return {
+      limited,
+      headers: {
+        "x-ratelimit-limit": String(bucket.limit),
+        "x-ratelimit-remaining": String(bucket.remaining),
+        "x-ratelimit-reset": String(bucket.resetAt),
+        "x-ratelimit-used": String(bucket.limit - bucket.remaining),
+        "x-ratelimit-resource": resource
+      }
+    };
+  }
+
+  private send(res: http.ServerResponse, response: FixtureResponse, extraHeaders: Record<string, string> = {}): void {
+    const headers: Record<string, string> = {
+      "content-type": "application/json; charset=utf-8",
+      ...(response.headers ?? {}),
+      ...extraHeaders
+    };
+    res.writeHead(response.status, headers);
+    res.end(typeof response.body === "string" ? response.body : JSON.stringify(response.body));
+  }
+
+  private async recordUpstream(req: http.IncomingMessage, rawUrl: string, body: string, key: string): Promise<FixtureResponse> {
+    const method = req.method ?? "GET";
+    const headers: Record<string, string> = {
+      "Accept": req.headers["accept"]?.toString() ?? "application/vnd.github.v3+json",
+      "User-Agent": req.headers["user-agent"]?.toString() ?? "oxide-rust-plugins-indexer/1.0",
+      "X-GitHub-Api-Version": req.headers["x-github-api-version"]?.toString() ?? "2022-11-28"
+    };
+    const authorization = req.headers["authorization"]?.toString();
+    if (authorization) headers["Authorization"] = authorization;
+    if (body) headers["Content-Type"] = "application/json";
+
+    const upstreamRes = await fetch(`${this.options.upstream}${rawUrl}`, {
+      method,
+      headers,
+      ...(body ? { body } : {})
+    });
+
+    const text = await upstreamRes.text();
+    let parsed: unknown = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies as plain text
+    }
+
+    const recordedHeaders: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = upstreamRes.headers.get(name);
+      if (value !== null) recordedHeaders[name] = value;
+    }
+    const response: FixtureResponse = { status: upstreamRes.status, headers: recordedHeaders, body: parsed };
+
+    // Rate limit responses are passed through but never persisted
+    if (upstreamRes.status !== 403 && upstreamRes.status !== 429) {
+      const fixture: Fixture = {
+        request: { method, url: rawUrl, ...(body ? { body } : {}) },
+        responses: [response]
+      };
+      const file = path.join(this.options.fixturesDir, fixtureFileName(method, rawUrl, key));
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+      this.fixtures.set(key, fixture);
+      console.log(`  Recorded ${method} ${rawUrl} -> ${path.relative(this.options.fixturesDir, file)}`);
+    }
+
+    return response;
+  }
+
+  private replay(rawUrl: string, key: string): FixtureResponse {
+    const fixture = this.fixtures.get(key);
+    if (fixture && fixture.responses.length > 0) {
+      const hit = this.hits.get(key) ?? 0;
+      this.hits.set(key, hit + 1);
+      const response = fixture.responses[Math.min(hit, fixture.responses.length - 1)];
+      if (response) return response;
+    }
+
+    // Unknown searches behave like a query without matches, everything else like a missing resource
+    const pathname = new URL(rawUrl, "http://fake.local").pathname;
+    if (pathname.startsWith("/search/")) {
+      return { status: 200, body: { total_count: 0, incomplete_results: false, items: [] } };
+    }
+    return {
+      status: 404,
+      body: { message: "Not Found", documentation_url: "https://docs.github.com/rest" }
+    };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const rawUrl = req.url ?? "/";
+    const method = req.method ?? "GET";
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks).toString("utf8");
+
+    const key = normalizeRequestKey(method, rawUrl, body || undefined);
+    const resource = rateLimitResourceFor(new URL(rawUrl, "http://fake.local").pathname);
+
+    if (this.options.record) {
+      const response = await this.recordUpstream(req, rawUrl, body, key);
+      this.send(res, response);
+      return;
+    }
+
+    const rateLimit = this.consumeRateLimit(resource);
+    if (rateLimit.limited) {
+      console.log(`  ${method} ${rawUrl} -> 403 (simulated ${resource} rate limit)`);
+      this.send(res, {
+        status: 403,
+        body: {
+          message: "API rate limit exceeded",
+          documentation_url: "https://docs.github.com/rest/overview/resources-in-the-rest-api#rate-limiting"
+        }
+      }, rateLimit.headers);
+      return;
+    }
+
+    const response = this.replay(rawUrl, key);
+    console.log(`  ${method} ${rawUrl} -> ${response.status}`);
+    this.send(res, response, rateLimit.headers);
+  }
+
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch((error) => {
+          console.error("Fake GitHub server error:", error);
+          this.send(res, { status: 502, body: { message: String(error) } });
+        });
+      });
+      this.server = server;
+      // e.g. EADDRINUSE; the server never listened, so there is nothing to stop
+      const onError = (error: Error) => {
+        this.server = null;
+        reject(error);
+      };
+      server.once("error", onError);
+      server.listen(this.options.port, () => {
+        server.off("error", onError);
+        const address = server.address();
+        const port = typeof address === "object" && address ? address.port : this.options.port;
+        resolve(`http://localhost:${port}`);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+    });
+  }
+}
+
+// CLI usage
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const options: FakeGitHubServerOptions = {
+    port: Number.parseInt(process.env.FAKE_GITHUB_PORT ?? "3999", 10),
+    fixturesDir: path.resolve(process.env.FAKE_GITHUB_FIXTURES ?? "fixtures/github"),
+    record: (process.env.FAKE_GITHUB_RECORD ?? "false").toLowerCase() === "true",
+    upstream: (process.env.FAKE_GITHUB_UPSTREAM ?? "https://api.github.com").replace(/\/+$/, ""),
+    coreLimit: Number.parseInt(process.env.FAKE_GITHUB_CORE_LIMIT ?? "0", 10),
+    searchLimit: Number.parseInt(process.env.FAKE_GITHUB_SEARCH_LIMIT ?? "0", 10),
+    rateLimitWindowSec: Number.parseInt(process.env.FAKE_GITHUB_RATE_LIMIT_WINDOW ?? "60", 10)
+  };
+
+  const server = new FakeGitHubServer(options);
+  server.start().then((url) => {
+    console.log(`Fake GitHub API listening on ${url} (${options.record ? `recording from ${options.upstream}` : "replay"})`);
+    console.log(`Point the indexer at it with GITHUB_API_URL=${url}`);
+  }).catch((error) => {
+    console.error("Failed to start fake GitHub server:", error);
+    process.exit(1);
+  });
+
+  process.on("SIGINT", () => {
+    server.stop().then(() => process.exit(0));
+  });
+}
+
+export { type Fixture, type FixtureResponse, type FakeGitHubServerOptions };
@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { compile, type JSONSchema } from "json-schema-to-typescript";
+import { PUBLISHED_SCHEMAS, SCHEMA_DIR } from "./published-schemas.js";
+
+// Generates the TypeScript types of the published files from backend/schemas for
+// both the backend and the frontend:
+//   node dist/generate-schema-types.js          write the type files
+//   node dist/generate-schema-types.js --check  exit 1 if they are out of date
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const TARGETS = [
+  path.join(__dirname, "..", "src", "published-types.ts"),
+  path.join(__dirname, "..", "..", "frontend", "src", "types", "published.ts")
+];
+
+const BANNER = `// Generated from backend/schemas by backend/src/generate-schema-types.ts.
+// Do not edit; change the schema and run \`npm run generate-types\` in backend/.`;
+
+export async function generateSchemaTypes(): Promise<string> {
+  // One wrapper schema so shared definitions are emitted once
+  const wrapper: JSONSchema = {
+    title: "PublishedFiles",
+    description: "Files in backend/output read by the frontend, by file name",
+    type: "object",
+    additionalProperties: false,
+    required: Object.keys(PUBLISHED_SCHEMAS),
+    properties: Object.fromEntries(
+      Object.entries(PUBLISHED_SCHEMAS).map(([fileName, { schema }]) => [fileName, { $ref: schema }])
+    )
+  };
+  return compile(wrapper, "PublishedFiles", {
+    cwd: SCHEMA_DIR,
+    bannerComment: BANNER,
+    additionalProperties: false,
+    style: { singleQuote: false, semi: true, printWidth: 120 }
+  });
+}
+
+async function main(): Promise<number> {
+  const check = process.argv.includes("--check");
+  const source = await generateSchemaTypes();
+  let outdated = 0;
+  for (const target of TARGETS) {
+    const current = fs.existsSync(target) ? fs.readFileSync(target, "utf8") : null;
+    if (current === source) continue;
+    if (check) {
+      console.error(`${path.relative(process.cwd(), target)} is out of date`);
+      outdated++;
+    } else {
+      fs.writeFileSync(target, source, "utf8");
+      console.log(`Wrote ${path.relative(process.cwd(), target)}`);
+    }
+  }
+  if (check && outdated > 0) {
+    console.error("Run `npm run generate-types` in backend/ and commit the result");
+    return 1;
+  }
+  return 0;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().then((code) => process.exit(code), (err) => {
+    console.error("Type generation failed:", err);
+    process.exit(1);
+  });
+}
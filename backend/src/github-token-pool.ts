@@ -0,0 +1,225 @@
+import fs from "node:fs";
+import crypto from "node:crypto";
+
+// Pool of GitHub credentials (personal access tokens and GitHub App installations).
+// Each token has its own rate limit budget per resource; requests go to whichever
+// token can serve the resource soonest, so several tokens multiply throughput.
+
+type RateLimitBudget = {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms
+  lastStartedAt: number;
+};
+
+type AppInstallation = {
+  appId: string;
+  privateKey: string;
+  installationId: string;
+};
+
+export type PooledToken = {
+  label: string; // safe to log, never the token itself
+  value: string | null;
+  expiresAt: number | null; // epoch ms, installation tokens only
+  installation: AppInstallation | null;
+  budgets: Map<string, RateLimitBudget>;
+  usage: Map<string, number>;
+};
+
+type GitHubTokenPoolOptions = {
+  apiUrl: string;
+  // Below this share of the limit, remaining requests are spread until the reset
+  reserveRatio?: number;
+};
+
+// Installation tokens live for an hour; refresh a bit early
+const INSTALLATION_TOKEN_REFRESH_MS = 5 * 60 * 1000;
+
+function maskToken(token: string): string {
+  return token.length > 8 ? `${token.slice(0, 4)}…${token.slice(-4)}` : "****";
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+function createAppJwt(appId: string, privateKey: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  // Backdated to tolerate clock drift, GitHub caps the lifetime at 10 minutes
+  const payload = base64Url(JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: appId }));
+  const signature = crypto.createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey);
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(/[\s,]+/).map(v => v.trim()).filter(Boolean);
+}
+
+export class GitHubTokenPool {
+  private tokens: PooledToken[];
+  readonly apiUrl: string;
+  private reserveRatio: number;
+
+  constructor(personalTokens: string[], installations: AppInstallation[], options: GitHubTokenPoolOptions) {
+    this.apiUrl = options.apiUrl;
+    this.reserveRatio = options.reserveRatio ?? 0.1;
+    const unique = [...new Set(personalTokens)];
+    this.tokens = [
+      ...unique.map((value): PooledToken => ({
+        label: maskToken(value),
+        value,
+        expiresAt: null,
+        installation: null,
+        budgets: new Map(),
+        usage: new Map()
+      })),
+      ...installations.map((installation): PooledToken => ({
+        label: `app ${installation.appId}/installation ${installation.installationId}`,
+        value: null,
+        expiresAt: null,
+        installation,
+        budgets: new Map(),
+        usage: new Map()
+      }))
+    ];
+  }
+
+  // GITHUB_TOKEN and GITHUB_TOKENS (comma or whitespace separated), plus an optional
+  // GitHub App: GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY or GITHUB_APP_PRIVATE_KEY_PATH,
+  // and GITHUB_APP_INSTALLATION_IDS
+  static fromEnv(apiUrl: string): GitHubTokenPool {
+    const personalTokens = [...splitList(process.env.GITHUB_TOKEN), ...splitList(process.env.GITHUB_TOKENS)];
+
+    const installations: AppInstallation[] = [];
+    const appId = process.env.GITHUB_APP_ID;
+    if (appId) {
+      const keyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+      const privateKey = keyPath
+        ? fs.readFileSync(keyPath, "utf-8")
+        : (process.env.GITHUB_APP_PRIVATE_KEY ?? "").replace(/\\n/g, "\n");
+      if (!privateKey) {
+        throw new Error("GITHUB_APP_ID is set but neither GITHUB_APP_PRIVATE_KEY nor GITHUB_APP_PRIVATE_KEY_PATH is");
+      }
+      for (const installationId of splitList(process.env.GITHUB_APP_INSTALLATION_IDS)) {
+        installations.push({ appId, privateKey, installationId });
+      }
+    }
+
+    return new GitHubTokenPool(personalTokens, installations, { apiUrl });
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  // Milliseconds before this token may start another request for the resource
+  private paceDelay(token: PooledToken, resource: string, now: number): number {
+    const budget = token.budgets.get(resource);
+    if (!budget) return 0;
+
+    if (now >= budget.resetAt) {
+      // Window rolled over; the next response reports the fresh budget
+      token.budgets.delete(resource);
+      return 0;
+    }
+    if (budget.remaining <= 0) {
+      return budget.resetAt - now + 1000;
+    }
+    if (budget.remaining > budget.limit * this.reserveRatio) {
+      return 0;
+    }
+    const interval = (budget.resetAt - now) / budget.remaining;
+    return Math.max(0, budget.lastStartedAt + interval - now);
+  }
+
+  // Token that can serve the resource soonest, preferring the most remaining budget
+  pick(resource: string): { token: PooledToken; delay: number } {
+    const now = Date.now();
+    let best: { token: PooledToken; delay: number; remaining: number } | null = null;
+    for (const token of this.tokens) {
+      const delay = this.paceDelay(token, resource, now);
+      const remaining = token.budgets.get(resource)?.remaining ?? Number.MAX_SAFE_INTEGER;
+      if (!best || delay < best.delay || (delay === best.delay && remaining > best.remaining)) {
+        best = { token, delay, remaining };
+      }
+    }
+    if (!best) {
+      throw new Error("No GitHub credentials configured");
+    }
+    return { token: best.token, delay: best.delay };
+  }
+
+  // Records a request start against the token's local budget
+  consume(token: PooledToken, resource: string): void {
+    token.usage.set(resource, (token.usage.get(resource) ?? 0) + 1);
+    const budget = token.budgets.get(resource);
+    if (budget) {
+      budget.remaining--;
+      budget.lastStartedAt = Date.now();
+    }
+  }
+
+  // Updates the token budget from X-RateLimit-* headers
+  observe(token: PooledToken, fallbackResource: string, headers: Headers): void {
+    const resource = headers.get("X-RateLimit-Resource") ?? fallbackResource;
+    const limit = Number.parseInt(headers.get("X-RateLimit-Limit") ?? "", 10);
+    const remaining = Number.parseInt(headers.get("X-RateLimit-Remaining") ?? "", 10);
+    const reset = Number.parseInt(headers.get("X-RateLimit-Reset") ?? "", 10);
+    if (Number.isNaN(limit) || Number.isNaN(remaining) || Number.isNaN(reset)) return;
+
+    const resetAt = reset * 1000;
+    const budget = token.budgets.get(resource);
+    if (!budget || resetAt > budget.resetAt) {
+      // New window: trust the server
+      token.budgets.set(resource, { limit, remaining, resetAt, lastStartedAt: budget?.lastStartedAt ?? 0 });
+      return;
+    }
+    // Same window: requests still in flight are already subtracted locally
+    budget.limit = limit;
+    budget.remaining = Math.min(budget.remaining, remaining);
+  }
+
+  // Token value for a request, minting a fresh installation token when needed
+  async resolve(token: PooledToken): Promise<string> {
+    if (!token.installation) {
+      return token.value ?? "";
+    }
+    if (token.value && token.expiresAt && token.expiresAt - Date.now() > INSTALLATION_TOKEN_REFRESH_MS) {
+      return token.value;
+    }
+
+    const { appId, privateKey, installationId } = token.installation;
+    const res = await fetch(`${this.apiUrl}/app/installations/${installationId}/access_tokens`, {
+      method: "POST",
+      headers: {
+        "Accept": "application/vnd.github+json",
+        "User-Agent": "oxide-rust-plugins-indexer/1.0",
+        "Authorization": `Bearer ${createAppJwt(appId, privateKey)}`,
+        "X-GitHub-Api-Version": "2022-11-28"
+      }
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to create installation token for ${token.label}: ${res.status} ${await res.text()}`);
+    }
+    const data = (await res.json()) as { token: string; expires_at: string };
+    token.value = data.token;
+    token.expiresAt = new Date(data.expires_at).getTime();
+    console.log(`Created installation token for ${token.label} (expires ${data.expires_at})`);
+    return data.token;
+  }
+
+  // One line per token: requests per resource and the last known budget
+  report(): string[] {
+    return this.tokens.map((token) => {
+      const resources = new Set([...token.usage.keys(), ...token.budgets.keys()]);
+      const parts = Array.from(resources).sort().map((resource) => {
+        const used = token.usage.get(resource) ?? 0;
+        const budget = token.budgets.get(resource);
+        return budget ? `${resource} ${used} (${budget.remaining}/${budget.limit} left)` : `${resource} ${used}`;
+      });
+      return `${token.label}: ${parts.length > 0 ? parts.join(", ") : "unused"}`;
+    });
+  }
+}
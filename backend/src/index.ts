@@ -2,6 +2,35 @@ import fs from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
 import { AuthorRepositoryFinder } from "./author-repository-finder.js";
+import { MAX_RATE_LIMIT_ATTEMPTS, RequestScheduler } from "./request-scheduler.js";
+import { GitHubTokenPool } from "./github-token-pool.js";
+import { getConfig } from "./config.js";
+import { getStore } from "./plugin-store.js";
+import { ChangeRecorder, changelogExists, publishChangelog } from "./changelog.js";
+import { SourceArchive } from "./source-archive.js";
+import { buildSearchVariants } from "./discovery.js";
+import { classifyPlugin, type PluginClassification } from "./plugin-classifier.js";
+import { commitFromBlobUrl, fileLinks } from "./permalinks.js";
+import { fromRestRepo, toIndexedRepository, type GitHubRepo, type RepoMetadata } from "./repository-metadata.js";
+// Published entry types, generated from schemas/
+import type {
+  IndexedPlugin,
+  PluginCommit,
+  PluginCommits,
+  RemovalReason
+} from "./published-types.js";
+import {
+  MAX_SEARCH_FILE_SIZE,
+  SEARCH_PAGE_SIZE,
+  SEARCH_RESULT_CAP,
+  collectLeaves,
+  countLeaves,
+  createPartition,
+  partitionLabel,
+  partitionQuery,
+  splitPartition,
+  type SizePartition
+} from "./search-partitions.js";
 
 // Core types
 type GitHubCodeSearchItem = {
@@ -12,6 +41,7 @@ type GitHubCodeSearchItem = {
   size: number;
   repository: {
     id: number;
+    node_id: string;
     name: string;
     full_name: string;
     html_url: string;
@@ -24,21 +54,31 @@ type GitHubCodeSearchResponse = {
   items: GitHubCodeSearchItem[];
 };
 
-type GitHubRepo = {
-  full_name: string;
+// Same fields as GitHubRepo, requested through the GraphQL `nodes` query
+type GraphQLRepository = {
+  id: string;
+  nameWithOwner: string;
   name: string;
-  html_url: string;
+  url: string;
   description: string | null;
-  default_branch: string;
-  stargazers_count: number;
-  forks_count: number;
-  open_issues_count: number;
-  created_at: string;
-  pushed_at: string;
-  owner: {
-    login: string;
-    html_url: string;
-  };
+  stargazerCount: number;
+  forkCount: number;
+  createdAt: string;
+  pushedAt: string | null;
+  isArchived: boolean;
+  isFork: boolean;
+  defaultBranchRef: { name: string } | null;
+  owner: { login: string; url: string };
+  parent: { nameWithOwner: string; url: string } | null;
+  licenseInfo: { spdxId: string | null; name: string } | null;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+};
+
+type GraphQLResponse<T> = {
+  data?: T;
+  errors?: { type?: string; message: string }[];
 };
 
 type GitHubFileContent = {
@@ -48,104 +88,93 @@ type GitHubFileContent = {
   size: number;
 };
 
-type IndexedPlugin = {
-  plugin_name: string;
-  plugin_author: string;
-  language: string;
-  file: {
-    path: string;
-    html_url: string;
-    raw_url: string;
-    sha: string;
-    size: number;
+type GitHubCommit = {
+  sha: string;
+  html_url: string;
+  commit: {
+    author: { name: string; email: string; date: string } | null;
+    committer: { name: string; email: string; date: string } | null;
   };
-  repository: {
-    full_name: string;
-    name: string;
+  author: {
+    login: string;
     html_url: string;
-    description: string | null;
-    owner_login: string;
-    owner_url: string;
-    default_branch: string;
-    stargazers_count: number;
-    forks_count: number;
-    open_issues_count: number;
-    created_at: string;
-  };
-  indexed_at: string;
+  } | null;
 };
 
-// Simple fork-based approach
-type SearchVariant = {
+// Commits already resolved in previous runs, so unchanged files cost no requests
+type CommitCache = {
+  bySha: Map<string, PluginCommits>; // repo#path#sha -> commits
+  createdByPath: Map<string, PluginCommit>; // repo#path -> first commit
+};
+
+type PluginInfo = {
   name: string;
-  query: string;
+  author: string; // empty when only the class name was found
+  version: string | null;
 };
 
-function buildSearchVariants(): SearchVariant[] {
-  const baseQuery = 'namespace Oxide.Plugins in:file language:C#';
-  return [
-    { name: "all", query: baseQuery },
-    { name: "with-extension", query: `${baseQuery} extension:cs` },
-    { name: "fork-false", query: `${baseQuery} fork:false` },
-    { name: "fork-true", query: `${baseQuery} fork:true` },
-    { name: "fork-false-extension", query: `${baseQuery} extension:cs fork:false` },
-    { name: "fork-true-extension", query: `${baseQuery} extension:cs fork:true` },
-    { name: "size-small", query: `${baseQuery} size:<10000` },
-    { name: "size-medium", query: `${baseQuery} size:10000..50000` },
-    { name: "size-large", query: `${baseQuery} size:>50000` },
-    // Добавляем больше вариантов для обхода лимитов
-    { name: "size-tiny", query: `${baseQuery} size:<1000` },
-    { name: "size-small-2", query: `${baseQuery} size:1000..5000` },
-    { name: "size-small-3", query: `${baseQuery} size:5000..10000` },
-    { name: "size-medium-2", query: `${baseQuery} size:50000..100000` },
-    { name: "size-large-2", query: `${baseQuery} size:100000..200000` },
-    { name: "size-huge", query: `${baseQuery} size:>200000` },
-    // Попробуем без language фильтра
-    { name: "no-language", query: 'namespace Oxide.Plugins in:file' },
-    { name: "no-language-extension", query: 'namespace Oxide.Plugins in:file extension:cs' },
-    // Попробуем с разными сортировками
-    { name: "sort-indexed", query: `${baseQuery} sort:indexed` },
-    { name: "sort-indexed-desc", query: `${baseQuery} sort:indexed order:desc` },
-    { name: "sort-indexed-asc", query: `${baseQuery} sort:indexed order:asc` },
-    // Попробуем с разными комбинациями
-    { name: "csharp-only", query: 'namespace Oxide.Plugins language:C#' },
-    { name: "csharp-extension", query: 'namespace Oxide.Plugins language:C# extension:cs' },
-    { name: "csharp-fork-true", query: 'namespace Oxide.Plugins language:C# fork:true' },
-    { name: "csharp-fork-false", query: 'namespace Oxide.Plugins language:C# fork:false' },
-    // Попробуем с разными размерами для fork режимов
-    { name: "fork-true-small", query: `${baseQuery} fork:true size:<10000` },
-    { name: "fork-true-medium", query: `${baseQuery} fork:true size:10000..50000` },
-    { name: "fork-true-large", query: `${baseQuery} fork:true size:>50000` },
-    { name: "fork-false-small", query: `${baseQuery} fork:false size:<10000` },
-    { name: "fork-false-medium", query: `${baseQuery} fork:false size:10000..50000` },
-    { name: "fork-false-large", query: `${baseQuery} fork:false size:>50000` },
-  ];
-}
+// Parse result of a blob; `info` is null for a file without recognizable metadata
+type ParsedBlob = PluginClassification & { info: PluginInfo | null };
+
+// Blob SHA -> parse result. Blobs parsed before classification hold the bare
+// PluginInfo (or null) and are parsed again.
+type ParseCache = Record<string, ParsedBlob | PluginInfo | null>;
+
+// Keys changed since the last flush to the store, and the run's changeset
+type PluginChanges = {
+  updated: Set<string>;
+  deleted: Set<string>;
+  changelog: ChangeRecorder;
+};
 
+type IndexerCaches = {
+  repos: Record<string, RepoMetadata>; // full_name -> metadata, refreshed after REPO_CACHE_TTL_HOURS
+  pendingRepos: Map<string, Promise<RepoMetadata>>; // dedupes concurrent fetches of the same repo
+  commits: CommitCache;
+  parsed: ParseCache;
+  archive: SourceArchive;
+};
+
+// One code search per discovery signature (see discovery.ts)
+type SearchScan = {
+  query: string;
+  partitionTree: SizePartition | null;
+};
+
+// Format versioned as "index-state" in migrations.ts
 type IndexerState = {
-  version: string;
-  currentVariant: number;
+  searches: SearchScan[];
+  currentSearch: number; // index into searches
+  currentPartition: number; // index into collectLeaves(partitionTree) of the current search
   currentPage: number;
-  seenKeys: Record<string, boolean>;
-  repoCache: Record<string, GitHubRepo>;
+  verifyCursor: number; // position in the sorted list of unseen entries
+  seenKeys: Record<string, boolean>; // across all searches of the scan
   lastFullScanAt: string | null;
-  query: string;
 };
 
-// Configuration
-const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-const CONTINUOUS = (process.env.CONTINUOUS ?? "false").toLowerCase() === "true";
-const CYCLE_DELAY_MS = Number.parseInt(process.env.CYCLE_DELAY_MS ?? "900000", 10); // 15 min
-const SEARCH_QUERY = process.env.SEARCH_QUERY ?? 'namespace Oxide.Plugins in:file language:C# extension:cs';
+// Configuration (see config.ts; indexer.config.json and env overrides)
+const config = getConfig();
+const CONTINUOUS = config.indexer.continuous;
+const CYCLE_DELAY_MS = config.indexer.cycleDelayMs;
+const INDEXER_CONCURRENCY = config.indexer.concurrency;
+const REMOVED_GRACE_DAYS = config.indexer.removedGraceDays;
+const VERIFY_BATCH_SIZE = config.indexer.verifyBatchSize;
+const REPO_CACHE_TTL_HOURS = config.indexer.repoCacheTtlHours;
+const AUTHOR_FINDER_INTERVAL_CYCLES = config.indexer.authorFinderIntervalCycles;
+const SEARCH_QUERIES = buildSearchVariants(config.indexer.searchQuery, config.discovery.signatures);
+// Point at a fake server (see fake-github-server.ts) to run offline
+const GITHUB_API_URL = config.github.apiUrl;
 
-if (!GITHUB_TOKEN) {
-  console.error("GITHUB_TOKEN is not set. Please export your token, e.g. 'export GITHUB_TOKEN=...'");
-  process.exit(1);
-}
+const tokenPool = GitHubTokenPool.fromEnv(GITHUB_API_URL);
 
-const OUT_DIR = path.resolve("output");
+const OUT_DIR = config.paths.outputDir;
+// Published export; records and state live in the store (plugin-store.ts)
 const OUT_FILE = path.join(OUT_DIR, "oxide_plugins.json");
-const STATE_FILE = path.join(OUT_DIR, "state.json");
+
+const scheduler = new RequestScheduler({ concurrency: INDEXER_CONCURRENCY, tokens: tokenPool });
+
+// Per-run counters for the parse cache
+const parseStats = { cacheHits: 0, contentFetches: 0 };
 
 // Utility functions
 function ensureDir(dirPath: string): void {
@@ -167,12 +196,6 @@ function formatDuration(ms: number): string {
   return `${hh}:${mm}:${ss}`;
 }
 
-function atomicWrite(filePath: string, content: string): void {
-  const tmp = `${filePath}.tmp`;
-  fs.writeFileSync(tmp, content, "utf8");
-  fs.renameSync(tmp, filePath);
-}
-
 function itemKey(item: GitHubCodeSearchItem): string {
   return `${item.repository.full_name}#${item.path}#${item.sha}`;
 }
@@ -181,16 +204,33 @@ function indexedKey(p: IndexedPlugin): string {
   return `${p.repository.full_name}#${p.file.path}#${p.file.sha}`;
 }
 
+class GitHubApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof GitHubApiError && err.status === 404;
+}
+
 // GitHub API functions
-async function githubFetchJson<T>(url: string, attempt = 1): Promise<{ data: T; headers: Headers }> {
-  const res = await fetch(url, {
+async function githubFetchJson<T>(url: string, init: { method?: string; body?: string } = {}, attempt = 1): Promise<{ data: T; headers: Headers }> {
+  const res = await scheduler.run(url, (token) => fetch(url, {
+    ...init,
     headers: {
       "Accept": "application/vnd.github.v3+json",
       "User-Agent": "oxide-rust-plugins-indexer/1.0",
-      "Authorization": `Bearer ${GITHUB_TOKEN}`,
+      "Authorization": `Bearer ${token}`,
       "X-GitHub-Api-Version": "2022-11-28"
     }
-  });
+  }));
+
+  if ((res.status === 403 || res.status === 429) && attempt >= MAX_RATE_LIMIT_ATTEMPTS) {
+    const body = await res.text();
+    throw new GitHubApiError(res.status, `GitHub API ${res.status} after ${attempt} attempts. Body: ${body}`);
+  }
 
   // Handle rate limiting
   if (res.status === 403) {
@@ -199,6 +239,13 @@ async function githubFetchJson<T>(url: string, attempt = 1): Promise<{ data: T;
     const resetPrimary = res.headers.get("X-RateLimit-Reset");
     const retryAfter = res.headers.get("Retry-After");
 
+    // Primary limit: the pool has recorded the exhausted budget, so the scheduler
+    // either switches to another token or waits for the reset
+    if (remaining === "0" && tokenPool.size > 1) {
+      console.warn(`Rate limited on one token. Rotating...`);
+      return githubFetchJson<T>(url, init, attempt + 1);
+    }
+
     // Prefer search-specific rate limit
     const resetSeconds = parseInt((resetSearch ?? resetPrimary) || "0", 10);
     if (remaining === "0" && resetSeconds > 0) {
@@ -206,94 +253,321 @@ async function githubFetchJson<T>(url: string, attempt = 1): Promise<{ data: T;
       const resetIso = new Date(resetSeconds * 1000).toISOString();
       console.warn(`Rate limited. Resets at ${resetIso} (in ${formatDuration(waitMs)}). Sleeping...`);
       await sleep(waitMs);
-      return githubFetchJson<T>(url, attempt + 1);
+      return githubFetchJson<T>(url, init, attempt + 1);
     }
     if (retryAfter) {
       const ms = Math.max(1000, parseInt(retryAfter, 10) * 1000);
       console.warn(`Retry-After=${retryAfter}s. Sleeping ${formatDuration(ms)} ...`);
       await sleep(ms);
-      return githubFetchJson<T>(url, attempt + 1);
+      return githubFetchJson<T>(url, init, attempt + 1);
     }
     // Secondary rate limits
     const backoffMs = Math.min(120000, 5000 * attempt);
     console.warn(`HTTP 403 (secondary limit). Backing off ${formatDuration(backoffMs)} (attempt ${attempt}) ...`);
     await sleep(backoffMs);
-    if (attempt >= 6) {
-      const body = await res.text();
-      throw new Error(`GitHub API 403 after retries. Body: ${body}`);
-    }
-    return githubFetchJson<T>(url, attempt + 1);
+    return githubFetchJson<T>(url, init, attempt + 1);
   }
   if (res.status === 429) {
     const retryAfter = Number.parseInt(res.headers.get("Retry-After") ?? "10", 10) * 1000;
     console.warn(`HTTP 429. Waiting ${formatDuration(retryAfter)} ...`);
     await sleep(retryAfter);
-    return githubFetchJson<T>(url, attempt + 1);
+    return githubFetchJson<T>(url, init, attempt + 1);
   }
 
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`GitHub API ${res.status} ${res.statusText}: ${text}`);
+    throw new GitHubApiError(res.status, `GitHub API ${res.status} ${res.statusText}: ${text}`);
   }
 
   const data = (await res.json()) as T;
   return { data, headers: res.headers };
 }
 
-async function fetchRepo(fullName: string): Promise<GitHubRepo> {
-  const { data } = await githubFetchJson<GitHubRepo>(`https://api.github.com/repos/${fullName}`);
-  return data;
+async function githubGraphQL<T>(query: string, variables: Record<string, unknown>): Promise<{ data: T; errors: { type?: string; message: string }[] }> {
+  const { data: response } = await githubFetchJson<GraphQLResponse<T>>(`${GITHUB_API_URL}/graphql`, {
+    method: "POST",
+    body: JSON.stringify({ query, variables })
+  });
+  if (!response.data) {
+    throw new Error(`GitHub GraphQL error: ${(response.errors ?? []).map(e => e.message).join("; ") || "no data"}`);
+  }
+  return { data: response.data, errors: response.errors ?? [] };
+}
+
+function fromGraphQLRepo(repo: GraphQLRepository): RepoMetadata {
+  return {
+    node_id: repo.id,
+    full_name: repo.nameWithOwner,
+    name: repo.name,
+    html_url: repo.url,
+    description: repo.description,
+    default_branch: repo.defaultBranchRef?.name ?? "main",
+    stargazers_count: repo.stargazerCount,
+    forks_count: repo.forkCount,
+    // REST counts open pull requests as issues
+    open_issues_count: repo.issues.totalCount + repo.pullRequests.totalCount,
+    created_at: repo.createdAt,
+    pushed_at: repo.pushedAt,
+    owner: { login: repo.owner.login, html_url: repo.owner.url },
+    is_archived: repo.isArchived,
+    is_fork: repo.isFork,
+    parent: repo.parent ? { full_name: repo.parent.nameWithOwner, html_url: repo.parent.url } : null,
+    license: repo.licenseInfo ? { spdx_id: repo.licenseInfo.spdxId, name: repo.licenseInfo.name } : null,
+    topics: repo.repositoryTopics.nodes.map(n => n.topic.name),
+    fetched_at: new Date().toISOString()
+  };
+}
+
+async function fetchRepo(fullName: string): Promise<RepoMetadata> {
+  const { data } = await githubFetchJson<GitHubRepo>(`${GITHUB_API_URL}/repos/${fullName}`);
+  return fromRestRepo(data);
+}
+
+// GraphQL accepts up to 100 node IDs per query
+const REPO_BATCH_SIZE = 100;
+
+const REPOSITORY_NODES_QUERY = `query($ids: [ID!]!) {
+  nodes(ids: $ids) {
+    ... on Repository {
+      id
+      nameWithOwner
+      name
+      url
+      description
+      stargazerCount
+      forkCount
+      createdAt
+      pushedAt
+      isArchived
+      isFork
+      defaultBranchRef { name }
+      owner { login url }
+      parent { nameWithOwner url }
+      licenseInfo { spdxId name }
+      repositoryTopics(first: 20) { nodes { topic { name } } }
+      issues(states: OPEN) { totalCount }
+      pullRequests(states: OPEN) { totalCount }
+    }
+  }
+}`;
+
+// Repositories that no longer resolve come back as null nodes
+async function fetchRepoBatch(nodeIds: string[]): Promise<RepoMetadata[]> {
+  const { data } = await githubGraphQL<{ nodes: (GraphQLRepository | null)[] }>(REPOSITORY_NODES_QUERY, { ids: nodeIds });
+  return data.nodes
+    .filter((node): node is GraphQLRepository => node !== null && typeof node.nameWithOwner === "string")
+    .map(fromGraphQLRepo);
+}
+
+function cacheRepo(caches: IndexerCaches, repo: RepoMetadata): void {
+  caches.repos[repo.full_name] = repo;
+  getStore().upsertRepository(repo.full_name, repo, repo.fetched_at);
+}
+
+function isRepoFresh(repo: RepoMetadata | undefined, now = Date.now()): repo is RepoMetadata {
+  if (!repo?.fetched_at) return false;
+  return now - Date.parse(repo.fetched_at) < REPO_CACHE_TTL_HOURS * 60 * 60 * 1000;
+}
+
+// Fetches missing or expired metadata for the repositories of a search page in
+// GraphQL batches. Repos left out (no node ID, failed batch) fall back to REST.
+async function prefetchRepos(items: GitHubCodeSearchItem[], caches: IndexerCaches): Promise<number> {
+  const nodeIds = new Map<string, string>();
+  for (const item of items) {
+    const { full_name, node_id } = item.repository;
+    if (node_id && !isRepoFresh(caches.repos[full_name])) {
+      nodeIds.set(full_name, node_id);
+    }
+  }
+  
+  const ids = Array.from(nodeIds.values());
+  let fetched = 0;
+  for (let i = 0; i < ids.length; i += REPO_BATCH_SIZE) {
+    try {
+      const repos = await fetchRepoBatch(ids.slice(i, i + REPO_BATCH_SIZE));
+      for (const repo of repos) {
+        cacheRepo(caches, repo);
+      }
+      fetched += repos.length;
+    } catch (err) {
+      console.warn(`  Repository batch failed, falling back to REST: ${(err as Error).message}`);
+    }
+  }
+  return fetched;
 }
 
 async function fetchFileContent(owner: string, repo: string, path: string, sha: string): Promise<GitHubFileContent> {
-  // Try with SHA first, fallback to default branch
+  // Fetch the exact blob first, fallback to default branch
   try {
     const { data } = await githubFetchJson<GitHubFileContent>(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${sha}`
+      `${GITHUB_API_URL}/repos/${owner}/${repo}/git/blobs/${sha}`
     );
     return data;
   } catch (err) {
     // If SHA fails, try with default branch
     const { data } = await githubFetchJson<GitHubFileContent>(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}`
+      `${GITHUB_API_URL}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}`
     );
     return data;
   }
 }
 
+// Current blob SHA of a file on the default branch, or null if it no longer exists
+async function fetchCurrentFileSha(fullName: string, filePath: string): Promise<string | null> {
+  try {
+    const { data } = await githubFetchJson<GitHubFileContent>(
+      `${GITHUB_API_URL}/repos/${fullName}/contents/${encodeURIComponent(filePath)}`
+    );
+    return data.sha;
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+async function repoExists(fullName: string): Promise<boolean> {
+  try {
+    await fetchRepo(fullName);
+    return true;
+  } catch (err) {
+    if (isNotFound(err)) return false;
+    throw err;
+  }
+}
+
+function toPluginCommit(commit: GitHubCommit): PluginCommit {
+  return {
+    sha: commit.sha,
+    author_name: commit.commit.author?.name ?? commit.commit.committer?.name ?? "",
+    author_login: commit.author?.login ?? "",
+    author_url: commit.author?.html_url ?? "",
+    committed_at: commit.commit.committer?.date ?? commit.commit.author?.date ?? "",
+    html_url: commit.html_url
+  };
+}
+
+// Extracts the page number of rel="last" from a Link header
+function parseLastPage(linkHeader: string | null): number | null {
+  if (!linkHeader) return null;
+  const match = linkHeader.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+  return match && match[1] ? Number.parseInt(match[1], 10) : null;
+}
+
+// Resolves the first and latest commit touching a file on the default branch.
+// With per_page=1 the last page of the history is the commit that created the file,
+// so a known `created` commit saves the second request.
+async function fetchFileCommits(fullName: string, filePath: string, knownCreated?: PluginCommit): Promise<PluginCommits | null> {
+  const baseUrl = `${GITHUB_API_URL}/repos/${fullName}/commits?path=${encodeURIComponent(filePath)}&per_page=1`;
+  const { data: latestPage, headers } = await githubFetchJson<GitHubCommit[]>(baseUrl);
+  const latestCommit = latestPage[0];
+  if (!latestCommit) return null;
+
+  const latest = toPluginCommit(latestCommit);
+  if (knownCreated) {
+    return { created: knownCreated, latest };
+  }
+
+  const lastPage = parseLastPage(headers.get("Link"));
+  if (!lastPage || lastPage <= 1) {
+    return { created: latest, latest };
+  }
+
+  const { data: firstPage } = await githubFetchJson<GitHubCommit[]>(`${baseUrl}&page=${lastPage}`);
+  const firstCommit = firstPage[0];
+  return {
+    created: firstCommit ? toPluginCommit(firstCommit) : latest,
+    latest
+  };
+}
+
 // Search functions
 async function fetchSearchCount(query: string): Promise<number> {
-  const countUrl = `https://api.github.com/search/code?q=${encodeURIComponent(query)}&per_page=1`;
+  const countUrl = `${GITHUB_API_URL}/search/code?q=${encodeURIComponent(query)}&per_page=1`;
   const { data } = await githubFetchJson<GitHubCodeSearchResponse>(countUrl);
   return data.total_count;
 }
 
 async function fetchSearchPage(query: string, page: number): Promise<GitHubCodeSearchItem[]> {
-  const searchUrl = `https://api.github.com/search/code?q=${encodeURIComponent(query)}&per_page=100&page=${page}&sort=indexed&order=desc`;
+  const searchUrl = `${GITHUB_API_URL}/search/code?q=${encodeURIComponent(query)}&per_page=100&page=${page}&sort=indexed&order=desc`;
   const { data } = await githubFetchJson<GitHubCodeSearchResponse>(searchUrl);
   return data.items ?? [];
 }
 
 // Plugin parsing functions
-function parsePluginInfo(content: string): { name: string; author: string } | null {
-  const decoded = Buffer.from(content, 'base64').toString('utf8');
-  
-  // Try [Info("Name","Author",...)] pattern
-  const infoMatch = decoded.match(/\[Info\s*\(\s*"([^"]+)"\s*,\s*"([^"]+)"\s*\)/);
+function parsePluginInfo(decoded: string): PluginInfo | null {
+  // Try [Info("Name","Author","Version")] pattern, version is optional
+  const infoMatch = decoded.match(/\[Info\s*\(\s*"([^"]+)"\s*,\s*"([^"]+)"\s*(?:,\s*"([^"]*)"\s*)?[,)]/);
   if (infoMatch && infoMatch[1] && infoMatch[2]) {
-    return { name: infoMatch[1], author: infoMatch[2] };
+    return { name: infoMatch[1], author: infoMatch[2], version: infoMatch[3] || null };
   }
   
   // Try class Name : RustPlugin pattern
-  const classMatch = decoded.match(/class\s+(\w+)\s*:\s*(RustPlugin|CovalencePlugin)/);
+  const classMatch = decoded.match(/class\s+(\w+)\s*:\s*(RustPlugin|CovalencePlugin|CarbonPlugin)/);
   if (classMatch && classMatch[1]) {
-    return { name: classMatch[1], author: "" }; // Will be filled with repo owner
+    return { name: classMatch[1], author: "", version: null }; // Author will be filled with repo owner
   }
   
   return null;
 }
 
-async function mapItemToIndexedPlugin(item: GitHubCodeSearchItem, repoCache: Record<string, GitHubRepo>): Promise<IndexedPlugin> {
+function parseBlob(content: Buffer): ParsedBlob {
+  const decoded = content.toString("utf8");
+  return { info: parsePluginInfo(decoded), ...classifyPlugin(decoded) };
+}
+
+function isParsedBlob(cached: ParseCache[string] | undefined): cached is ParsedBlob {
+  return cached !== undefined && cached !== null && "framework" in cached;
+}
+
+function cacheParse(sha: string, parsed: ParsedBlob, caches: IndexerCaches): ParsedBlob {
+  caches.parsed[sha] = parsed;
+  getStore().saveParse(sha, parsed);
+  return parsed;
+}
+
+async function resolveCommits(item: GitHubCodeSearchItem, commitCache: CommitCache): Promise<PluginCommits | null> {
+  const pathKey = `${item.repository.full_name}#${item.path}`;
+  const cached = commitCache.bySha.get(itemKey(item));
+  if (cached) return cached;
+
+  const commits = await fetchFileCommits(item.repository.full_name, item.path, commitCache.createdByPath.get(pathKey));
+  if (commits) {
+    commitCache.bySha.set(itemKey(item), commits);
+    commitCache.createdByPath.set(pathKey, commits.created);
+  }
+  return commits;
+}
+
+// Parses a blob once; later runs reuse the result for the same SHA. Blobs parsed
+// before the source archive existed are fetched once more to archive them, and
+// blobs parsed before classification are parsed again from the archive.
+async function resolvePluginInfo(item: GitHubCodeSearchItem, owner: string, repo: string, caches: IndexerCaches): Promise<ParsedBlob> {
+  const cached = caches.parsed[item.sha];
+  if (isParsedBlob(cached) && caches.archive.has(item.sha)) {
+    parseStats.cacheHits++;
+    return cached;
+  }
+  const archived = caches.archive.read(item.sha);
+  if (archived) {
+    parseStats.cacheHits++;
+    return cacheParse(item.sha, parseBlob(archived), caches);
+  }
+  const fileContent = await fetchFileContent(owner, repo, item.path, item.sha);
+  parseStats.contentFetches++;
+  const content = Buffer.from(fileContent.content, "base64");
+  // Only cache and archive exact blobs; a default-branch fallback may hold different content
+  if (fileContent.sha !== item.sha) {
+    return parseBlob(content);
+  }
+  const archivedSha = caches.archive.add(content);
+  if (archivedSha !== item.sha) {
+    console.warn(`Content of blob ${item.sha} (${item.repository.full_name}/${item.path}) hashes to ${archivedSha}`);
+  }
+  if (isParsedBlob(cached)) return cached;
+  return cacheParse(item.sha, parseBlob(content), caches);
+}
+
+async function mapItemToIndexedPlugin(item: GitHubCodeSearchItem, caches: IndexerCaches): Promise<IndexedPlugin> {
   const fullName = item.repository.full_name;
   const [owner, repo] = fullName.split("/");
   
@@ -301,267 +575,518 @@ async function mapItemToIndexedPlugin(item: GitHubCodeSearchItem, repoCache: Rec
     throw new Error(`Invalid repository format: ${fullName}`);
   }
   
-  // Get or cache repo data
-  let repoData = repoCache[fullName];
-  if (!repoData) {
-    repoData = await fetchRepo(fullName);
-    repoCache[fullName] = repoData;
+  // Usually prefetched in a batch; fetch individually when missing or expired
+  let repoData = caches.repos[fullName];
+  if (!isRepoFresh(repoData)) {
+    let pending = caches.pendingRepos.get(fullName);
+    if (!pending) {
+      pending = fetchRepo(fullName).finally(() => caches.pendingRepos.delete(fullName));
+      caches.pendingRepos.set(fullName, pending);
+    }
+    repoData = await pending;
+    cacheRepo(caches, repoData);
   }
   
   // Try to get file content for parsing
   let pluginName = path.basename(item.path).replace(/\.[^.]+$/, "");
   let pluginAuthor = repoData.owner.login;
+  let pluginVersion: string | null = null;
+  let classification: PluginClassification | null = null;
   
   try {
-    const fileContent = await fetchFileContent(owner, repo, item.path, item.sha);
-    const parsed = parsePluginInfo(fileContent.content);
-    if (parsed) {
-      pluginName = parsed.name;
-      pluginAuthor = parsed.author || repoData.owner.login;
+    const { info, framework, game } = await resolvePluginInfo(item, owner, repo, caches);
+    classification = { framework, game };
+    if (info) {
+      pluginName = info.name;
+      pluginAuthor = info.author || repoData.owner.login;
+      pluginVersion = info.version;
     }
   } catch (err) {
     console.warn(`Failed to parse ${fullName}/${item.path}: ${(err as Error).message}`);
   }
+  if (caches.archive.has(item.sha)) {
+    caches.archive.link(fullName, item.path, item.sha, pluginVersion);
+  }
   
-  const rawUrl = `https://raw.githubusercontent.com/${fullName}/${repoData.default_branch}/${item.path}`;
+  let commits: PluginCommits | null = null;
+  try {
+    commits = await resolveCommits(item, caches.commits);
+  } catch (err) {
+    console.warn(`Failed to resolve commits for ${fullName}/${item.path}: ${(err as Error).message}`);
+  }
+  
+  // Search results point at the commit GitHub indexed, so the links are permalinks
+  const links = fileLinks(fullName, repoData.default_branch, item.path, commitFromBlobUrl(item.html_url));
   
   return {
     plugin_name: pluginName,
     plugin_author: pluginAuthor,
+    ...(pluginVersion ? { plugin_version: pluginVersion } : {}),
     language: "C#",
+    ...(classification ?? {}),
     file: {
       path: item.path,
-      html_url: item.html_url,
-      raw_url: rawUrl,
+      ...links,
       sha: item.sha,
       size: item.size
     },
-    repository: {
-      full_name: repoData.full_name,
-      name: repoData.name,
-      html_url: repoData.html_url,
-      description: repoData.description,
-      owner_login: repoData.owner.login,
-      owner_url: repoData.owner.html_url,
-      default_branch: repoData.default_branch,
-      stargazers_count: repoData.stargazers_count,
-      forks_count: repoData.forks_count,
-      open_issues_count: repoData.open_issues_count,
-      created_at: repoData.created_at
-    },
+    repository: toIndexedRepository(repoData),
+    ...(commits ? { commits } : {}),
     indexed_at: new Date().toISOString()
   };
 }
 
 // State management
 function loadState(): IndexerState | null {
-  try {
-    if (!fs.existsSync(STATE_FILE)) return null;
-    const raw = fs.readFileSync(STATE_FILE, "utf8");
-    return JSON.parse(raw) as IndexerState;
-  } catch {
-    return null;
-  }
+  return getStore().loadRunState<IndexerState>("index");
 }
 
 function saveState(state: IndexerState): void {
-  atomicWrite(STATE_FILE, JSON.stringify(state, null, 2));
+  getStore().saveRunState("index", state);
 }
 
-function loadExistingOutput(): Map<string, IndexedPlugin> {
-  try {
-    if (!fs.existsSync(OUT_FILE)) return new Map();
-    const raw = fs.readFileSync(OUT_FILE, "utf8");
-    const json = JSON.parse(raw) as { items?: IndexedPlugin[] };
-    const map = new Map<string, IndexedPlugin>();
-    for (const it of json.items ?? []) map.set(indexedKey(it), it);
-    return map;
-  } catch {
-    return new Map();
-  }
-}
-
-function writeUnifiedOutput(existingMap: Map<string, IndexedPlugin>, query: string): void {
-  const allItems = Array.from(existingMap.values());
-  allItems.sort((a, b) => {
-    const aTs = new Date(a.indexed_at).getTime();
-    const bTs = new Date(b.indexed_at).getTime();
-    if (aTs !== bTs) return bTs - aTs;
-    if (a.repository.full_name === b.repository.full_name) {
-      return a.file.path.localeCompare(b.file.path);
+// Persists changed and purged entries together with the resume state, so a crash
+// never leaves the state ahead of the records
+function flushChanges(existingMap: Map<string, IndexedPlugin>, changes: PluginChanges, state: IndexerState): void {
+  const store = getStore();
+  store.transaction(() => {
+    const upserts: [string, IndexedPlugin][] = [];
+    for (const key of changes.updated) {
+      const plugin = existingMap.get(key);
+      if (plugin) upserts.push([key, plugin]);
     }
-    return a.repository.full_name.localeCompare(b.repository.full_name);
+    store.upsertPlugins("index", upserts);
+    store.deletePlugins("index", Array.from(changes.deleted));
+    changes.changelog.flush();
+    store.saveRunState("index", state);
   });
-  const payload = {
-    generated_at: new Date().toISOString(),
-    query,
-    count: allItems.length,
-    items: allItems
-  };
-  atomicWrite(OUT_FILE, JSON.stringify(payload, null, 2));
+  changes.updated.clear();
+  changes.deleted.clear();
+}
+
+// Checks entries that were not seen in this scan and tombstones the ones gone from GitHub.
+// Works through a rotating batch so large indexes are verified over several runs.
+async function verifyUnseenEntries(existingMap: Map<string, IndexedPlugin>, state: IndexerState, changes: PluginChanges): Promise<number> {
+  const candidates = Array.from(existingMap.keys())
+    .filter(key => !state.seenKeys[key] && !existingMap.get(key)?.removed_at)
+    .sort();
+  if (candidates.length === 0) return 0;
+
+  const start = state.verifyCursor % candidates.length;
+  const batch = [...candidates.slice(start), ...candidates.slice(0, start)].slice(0, VERIFY_BATCH_SIZE);
+  console.log(`Verifying ${batch.length} of ${candidates.length} entries not seen in this scan...`);
+
+  const repoStatus = new Map<string, Promise<boolean>>();
+  let removed = 0;
+
+  await Promise.all(batch.map(async (key) => {
+    const plugin = existingMap.get(key);
+    if (!plugin) return;
+    const fullName = plugin.repository.full_name;
+
+    let reason: RemovalReason | null = null;
+    try {
+      const currentSha = await fetchCurrentFileSha(fullName, plugin.file.path);
+      if (currentSha === null) {
+        let exists = repoStatus.get(fullName);
+        if (!exists) {
+          exists = repoExists(fullName);
+          repoStatus.set(fullName, exists);
+        }
+        reason = (await exists) ? "file_deleted" : "repo_deleted";
+      } else if (currentSha !== plugin.file.sha && existingMap.has(`${fullName}#${plugin.file.path}#${currentSha}`)) {
+        reason = "superseded";
+      }
+    } catch (err) {
+      console.warn(`Failed to verify ${fullName}/${plugin.file.path}: ${(err as Error).message}`);
+      return;
+    }
+
+    if (reason) {
+      plugin.removed_at = new Date().toISOString();
+      plugin.removed_reason = reason;
+      changes.updated.add(key);
+      // A superseded entry was already reported as updated
+      if (reason !== "superseded") changes.changelog.record("removed", plugin);
+      removed++;
+      console.log(`  Tombstoned ${fullName}/${plugin.file.path} (${reason})`);
+    }
+  }));
+
+  state.verifyCursor = start + batch.length;
+  return removed;
+}
+
+// Drops tombstoned entries whose grace period has expired
+function purgeExpiredTombstones(existingMap: Map<string, IndexedPlugin>, changes: PluginChanges): number {
+  const cutoff = Date.now() - REMOVED_GRACE_DAYS * 24 * 60 * 60 * 1000;
+  let purged = 0;
+  for (const [key, plugin] of existingMap) {
+    if (plugin.removed_at && new Date(plugin.removed_at).getTime() < cutoff) {
+      existingMap.delete(key);
+      changes.updated.delete(key);
+      changes.deleted.add(key);
+      purged++;
+    }
+  }
+  return purged;
+}
+
+function buildCommitCache(existingMap: Map<string, IndexedPlugin>): CommitCache {
+  const cache: CommitCache = { bySha: new Map(), createdByPath: new Map() };
+  for (const [key, plugin] of existingMap) {
+    if (!plugin.commits) continue;
+    cache.bySha.set(key, plugin.commits);
+    cache.createdByPath.set(`${plugin.repository.full_name}#${plugin.file.path}`, plugin.commits.created);
+  }
+  return cache;
+}
+
+// Newest live entry per repo#path, to tell updated files from new ones
+function buildLatestByPath(existingMap: Map<string, IndexedPlugin>): Map<string, IndexedPlugin> {
+  const latest = new Map<string, IndexedPlugin>();
+  for (const plugin of existingMap.values()) {
+    if (plugin.removed_at) continue;
+    const pathKey = `${plugin.repository.full_name}#${plugin.file.path}`;
+    const current = latest.get(pathKey);
+    if (!current || current.indexed_at < plugin.indexed_at) latest.set(pathKey, plugin);
+  }
+  return latest;
+}
+
+// Newest first, then by repository and path
+function compareIndexedPlugins(a: IndexedPlugin, b: IndexedPlugin): number {
+  const aTs = new Date(a.indexed_at).getTime();
+  const bTs = new Date(b.indexed_at).getTime();
+  if (aTs !== bTs) return bTs - aTs;
+  if (a.repository.full_name === b.repository.full_name) {
+    return a.file.path.localeCompare(b.file.path);
+  }
+  return a.repository.full_name.localeCompare(b.repository.full_name);
+}
+
+function writeUnifiedOutput(query: string): void {
+  getStore().exportPlugins<IndexedPlugin>("index", OUT_DIR, query, compareIndexedPlugins);
 }
 
 // Main processing functions
 async function runOnce(): Promise<void> {
   ensureDir(OUT_DIR);
   
-  console.log(`Starting Oxide plugins indexer with query: ${SEARCH_QUERY}`);
+  console.log(`Starting plugins indexer with ${SEARCH_QUERIES.length === 1 ? "query" : "queries"}: ${SEARCH_QUERIES.join(" | ")}`);
+  
+  const store = getStore();
   
-  // Load or initialize state
+  // Load or initialize state; older formats are migrated by the store. When the
+  // queries change the scan starts over, keeping the partition trees of queries
+  // searched before and the cached repositories.
   let state = loadState();
-  if (!state || state.version !== "1.0") {
+  if (!state || state.searches.map(s => s.query).join("\n") !== SEARCH_QUERIES.join("\n")) {
+    const knownTrees = new Map((state?.searches ?? []).map(s => [s.query, s.partitionTree]));
     state = {
-      version: "1.0",
-      currentVariant: 0,
+      searches: SEARCH_QUERIES.map(query => ({ query, partitionTree: knownTrees.get(query) ?? null })),
+      currentSearch: 0,
+      currentPartition: 0,
       currentPage: 1,
+      verifyCursor: 0,
       seenKeys: {},
-      repoCache: {},
-      lastFullScanAt: null,
-      query: SEARCH_QUERY
+      lastFullScanAt: null
     };
     saveState(state);
   }
+  // Expired metadata would be refetched anyway
+  store.deleteRepositoriesFetchedBefore(new Date(Date.now() - REPO_CACHE_TTL_HOURS * 60 * 60 * 1000).toISOString());
   
-  // Load existing output
-  const existingMap = loadExistingOutput();
+  // Load existing entries
+  const existingMap = store.loadPlugins<IndexedPlugin>("index");
+  // The first scan has nothing to compare against and records no changeset
+  const changes: PluginChanges = {
+    updated: new Set(),
+    deleted: new Set(),
+    changelog: new ChangeRecorder(store, "index", existingMap.size > 0)
+  };
+  const latestByPath = buildLatestByPath(existingMap);
   console.log(`Loaded ${existingMap.size} existing entries`);
+  const caches: IndexerCaches = {
+    repos: store.loadRepositories<RepoMetadata>(),
+    pendingRepos: new Map(),
+    commits: buildCommitCache(existingMap),
+    parsed: store.loadParseCache<ParsedBlob | PluginInfo>(),
+    archive: new SourceArchive(store, OUT_DIR, config.paths.archiveRoot)
+  };
+  parseStats.cacheHits = 0;
+  parseStats.contentFetches = 0;
+  scheduler.resetStats();
+  console.log(`Loaded ${Object.keys(caches.parsed).length} cached blob parses`);
   
   let processedCount = 0;
   let newEntries = 0;
-  let lastFlushedNewEntries = 0;
+  let backfilledCommits = 0;
+  let restoredEntries = 0;
+  let classifiedEntries = 0;
+  let pinnedEntries = 0;
+  let refreshedRepos = 0;
   
-  // Process all search variants
-  const variants = buildSearchVariants();
+  let searchRequests = 0;
+  let batchedRepos = 0;
+  // Set when a search request failed; the scan stops there and the next run resumes at it
+  let stoppedAt: string | null = null;
   
-  for (let variantIndex = state.currentVariant; variantIndex < variants.length; variantIndex++) {
-    const variant = variants[variantIndex];
-    
-    if (!variant) {
-      console.error(`Variant at index ${variantIndex} is undefined`);
-      continue;
-    }
-    
-    if (variantIndex !== state.currentVariant) {
-      state.currentVariant = variantIndex;
+  scan: for (let searchIndex = state.currentSearch; searchIndex < state.searches.length; searchIndex++) {
+    const search = state.searches[searchIndex]!;
+    if (searchIndex !== state.currentSearch) {
+      state.currentSearch = searchIndex;
+      state.currentPartition = 0;
       state.currentPage = 1;
       saveState(state);
     }
+    const partitionTree = search.partitionTree ?? createPartition(0, MAX_SEARCH_FILE_SIZE);
+    search.partitionTree = partitionTree;
+    console.log(`Search ${searchIndex + 1}/${state.searches.length}: ${search.query}`);
     
-    console.log(`Processing variant: ${variant.name}`);
-    console.log(`  Query: ${variant.query}`);
+    // Walk the size partitions, bisecting any leaf that grew past the result cap.
+    // Splitting replaces the current leaf with its children, so the same index is revisited.
+    for (let leafIndex = state.currentPartition; leafIndex < countLeaves(partitionTree); leafIndex++) {
+      const partition = collectLeaves(partitionTree)[leafIndex];
     
-    while (state.currentPage <= 10) { // GitHub limit: 10 pages
-      console.log(`  Page ${state.currentPage}/10...`);
-      
+      if (!partition) {
+        console.error(`Partition at index ${leafIndex} is undefined`);
+        continue;
+      }
+    
+      if (leafIndex !== state.currentPartition) {
+        state.currentPartition = leafIndex;
+        state.currentPage = 1;
+        saveState(state);
+      }
+    
+      const query = partitionQuery(search.query, partition);
+      const label = partitionLabel(partition);
+      console.log(`Processing partition ${leafIndex + 1}/${countLeaves(partitionTree)}: ${label}`);
+    
+      let totalCount: number;
       try {
-        // Check total count first
-        const totalCount = await fetchSearchCount(variant.query);
-        console.log(`  Total count: ${totalCount}`);
-        
-        if (totalCount === 0) {
-          console.log(`  No results for ${variant.name}, moving to next variant`);
-          break;
-        }
+        totalCount = await fetchSearchCount(query);
+        searchRequests++;
+      } catch (err) {
+        console.error(`Error counting ${label}: ${(err as Error).message}`);
+        stoppedAt = label;
+        break scan;
+      }
+      partition.count = totalCount;
+      partition.counted_at = new Date().toISOString();
+      console.log(`  Total count: ${totalCount}`);
+    
+      if (totalCount >= SEARCH_RESULT_CAP && partition.max > partition.min) {
+        const [lower, upper] = splitPartition(partition);
+        // A page resumed in the split leaf does not carry over to its children
+        state.currentPage = 1;
+        saveState(state);
+        console.log(`  Over ${SEARCH_RESULT_CAP} results, splitting into ${partitionLabel(lower)} and ${partitionLabel(upper)}`);
+        leafIndex--;
+        continue;
+      }
+      if (totalCount >= SEARCH_RESULT_CAP) {
+        console.warn(`  ${label} cannot be split further, only the first ${SEARCH_RESULT_CAP} results are reachable`);
+      }
+    
+      saveState(state);
+      if (totalCount === 0) {
+        console.log(`  No results for ${label}, moving to next partition`);
+        continue;
+      }
+    
+      const totalPages = Math.ceil(Math.min(SEARCH_RESULT_CAP, totalCount) / SEARCH_PAGE_SIZE);
+    
+      while (state.currentPage <= totalPages) {
+        console.log(`  Page ${state.currentPage}/${totalPages}...`);
+      
+        try {
+          const items = await fetchSearchPage(query, state.currentPage);
+          searchRequests++;
+          console.log(`  Found ${items.length} items`);
         
-        // Fetch the page
-        const items = await fetchSearchPage(variant.query, state.currentPage);
-        console.log(`  Found ${items.length} items`);
+          if (items.length === 0) {
+            console.log(`  No more items for ${label}, moving to next partition`);
+            break;
+          }
         
-        if (items.length === 0) {
-          console.log(`  No more items for ${variant.name}, moving to next variant`);
-          break;
-        }
+          batchedRepos += await prefetchRepos(items, caches);
         
-        // Process items
-        for (const item of items) {
-          const key = itemKey(item);
-          if (state.seenKeys[key]) {
-            continue; // Already processed
-          }
+          // Process items concurrently; the scheduler bounds in-flight requests
+          await Promise.all(items.map(async (item) => {
+            const key = itemKey(item);
+            if (state.seenKeys[key]) {
+              return; // Already processed
+            }
           
-          try {
-            const indexed = await mapItemToIndexedPlugin(item, state.repoCache);
-            const indexedKeyStr = `${indexed.repository.full_name}#${indexed.file.path}#${indexed.file.sha}`;
+            try {
+              const indexed = await mapItemToIndexedPlugin(item, caches);
+              const indexedKeyStr = `${indexed.repository.full_name}#${indexed.file.path}#${indexed.file.sha}`;
             
-            if (!existingMap.has(indexedKeyStr)) {
-              existingMap.set(indexedKeyStr, indexed);
-              newEntries++;
-            }
+              const existing = existingMap.get(indexedKeyStr);
+              if (!existing) {
+                existingMap.set(indexedKeyStr, indexed);
+                changes.updated.add(indexedKeyStr);
+                newEntries++;
+                // A new SHA of a known file is an update of that plugin
+                const pathKey = `${indexed.repository.full_name}#${indexed.file.path}`;
+                const previous = latestByPath.get(pathKey);
+                if (previous) {
+                  changes.changelog.record("updated", indexed, previous);
+                } else {
+                  changes.changelog.record("added", indexed);
+                }
+                latestByPath.set(pathKey, indexed);
+              } else {
+                const before = JSON.stringify(existing);
+                if (existing.removed_at) {
+                  // Found again after being tombstoned
+                  delete existing.removed_at;
+                  delete existing.removed_reason;
+                  restoredEntries++;
+                  changes.changelog.record("added", existing);
+                }
+                if (!existing.commits && indexed.commits) {
+                  // Entries indexed before commit history was tracked
+                  existing.commits = indexed.commits;
+                  backfilledCommits++;
+                }
+                if (indexed.framework && indexed.game && (existing.framework !== indexed.framework || existing.game !== indexed.game)) {
+                  // Entries indexed before classification, or classified by an older classifier
+                  existing.framework = indexed.framework;
+                  existing.game = indexed.game;
+                  classifiedEntries++;
+                }
+                if (!existing.file.commit_sha && indexed.file.commit_sha) {
+                  // Entries indexed before permalinks; the blob is the same at either commit
+                  existing.file = { ...existing.file, ...indexed.file };
+                  pinnedEntries++;
+                }
+                if (JSON.stringify(existing.repository) !== JSON.stringify(indexed.repository)) {
+                  // Stars, forks and the other repository fields drift between runs
+                  existing.repository = indexed.repository;
+                  refreshedRepos++;
+                }
+                if (JSON.stringify(existing) !== before) {
+                  changes.updated.add(indexedKeyStr);
+                }
+              }
             
-            state.seenKeys[key] = true;
-            processedCount++;
+              state.seenKeys[key] = true;
+              processedCount++;
             
-            // Periodic save only if there are new entries since last flush
-            if (processedCount % 50 === 0 && newEntries > lastFlushedNewEntries) {
-              writeUnifiedOutput(existingMap, SEARCH_QUERY);
-              saveState(state);
-              lastFlushedNewEntries = newEntries;
-              console.log(`Saved progress (${newEntries} new so far)`);
-            }
+              // Periodic save only if there are changes since last flush
+              if (processedCount % 50 === 0 && changes.updated.size > 0) {
+                flushChanges(existingMap, changes, state);
+                console.log(`Saved progress (${newEntries} new so far)`);
+              }
             
-          } catch (err) {
-            console.warn(`Failed to process ${item.repository.full_name}/${item.path}: ${(err as Error).message}`);
-          }
-          
-          await sleep(200); // Gentle pacing
-        }
-        
-        // Move to next page
-        state.currentPage++;
-        saveState(state);
+            } catch (err) {
+              console.warn(`Failed to process ${item.repository.full_name}/${item.path}: ${(err as Error).message}`);
+            }
+          }));
         
-        // If we got less than 100 items, we've reached the end
-        if (items.length < 100) {
-          console.log(`  Reached end of results for ${variant.name}`);
-          break;
-        }
+          // Move to next page; the page's entries are committed with the new position
+          state.currentPage++;
+          flushChanges(existingMap, changes, state);
         
-        await sleep(1000); // Delay between pages
+          // If we got less than a full page, we've reached the end
+          if (items.length < SEARCH_PAGE_SIZE) {
+            console.log(`  Reached end of results for ${label}`);
+            break;
+          }
         
-      } catch (err) {
-        console.error(`Error processing ${variant.name} page ${state.currentPage}: ${(err as Error).message}`);
-        // Put back in queue for retry
-        break;
+        } catch (err) {
+          console.error(`Error processing ${label} page ${state.currentPage}: ${(err as Error).message}`);
+          stoppedAt = `${label} page ${state.currentPage}`;
+          break scan;
+        }
       }
     }
   }
   
-  // Final save only if there are new entries in this run
-  if (newEntries > lastFlushedNewEntries) {
-    writeUnifiedOutput(existingMap, SEARCH_QUERY);
-  }
-  state.lastFullScanAt = new Date().toISOString();
-  state.currentVariant = 0;
-  state.currentPage = 1;
-  state.seenKeys = {}; // Reset seen keys
-  saveState(state);
+  // Entries of partitions the scan did not reach would all look unseen, so
+  // verification and the scan reset wait for a complete scan
+  let removedEntries = 0;
+  if (stoppedAt) {
+    console.warn(`Scan stopped at ${stoppedAt}; the next run resumes there`);
+  } else {
+    removedEntries = await verifyUnseenEntries(existingMap, state, changes);
+    state.lastFullScanAt = new Date().toISOString();
+    state.currentSearch = 0;
+    state.currentPartition = 0;
+    state.currentPage = 1;
+    state.seenKeys = {}; // Reset seen keys
+  }
+  const purgedEntries = purgeExpiredTombstones(existingMap, changes);
+  flushChanges(existingMap, changes, state);
+  changes.changelog.finish();
   
-  console.log(`Completed scan. Total: ${existingMap.size} entries, New: ${newEntries}`);
+  // Regenerate the published export only if there are changes in this run
+  const totalChanges = newEntries + backfilledCommits + restoredEntries + classifiedEntries + pinnedEntries + refreshedRepos + removedEntries + purgedEntries;
+  if (totalChanges > 0 || !fs.existsSync(OUT_FILE)) {
+    writeUnifiedOutput(SEARCH_QUERIES.join(" | "));
+  }
+  if (changes.changelog.total > 0 || !changelogExists(OUT_DIR)) {
+    publishChangelog(store, OUT_DIR);
+  }
+  if (caches.archive.changed || !caches.archive.indexExists()) {
+    caches.archive.exportIndex();
+  }
+  
+  console.log(`${stoppedAt ? "Stopped" : "Completed"} scan. Total: ${existingMap.size} entries, New: ${newEntries}, Commits backfilled: ${backfilledCommits}, Classified: ${classifiedEntries}, Pinned: ${pinnedEntries}`);
+  console.log(`Removed: ${removedEntries}, Restored: ${restoredEntries}, Purged after ${REMOVED_GRACE_DAYS} days: ${purgedEntries}`);
+  console.log(`Changeset: ${changes.changelog.summary()}`);
+  const partitionCount = state.searches.reduce((sum, s) => sum + (s.partitionTree ? countLeaves(s.partitionTree) : 0), 0);
+  console.log(`Search requests: ${searchRequests} across ${partitionCount} partitions of ${state.searches.length} searches`);
+  console.log(`Repositories fetched in GraphQL batches: ${batchedRepos}, entries with refreshed repository metadata: ${refreshedRepos}`);
+  console.log(`Content requests: ${parseStats.contentFetches}, parse cache hits: ${parseStats.cacheHits}`);
+  console.log(`Source archive: ${caches.archive.summary()}`);
+  console.log(`Throughput: ${scheduler.report()}`);
+  for (const line of tokenPool.report()) {
+    console.log(`  ${line}`);
+  }
 }
 
 async function runAuthorRepositoryFinder(): Promise<void> {
   try {
     console.log("Starting Author Repository Finder...");
-    const finder = new AuthorRepositoryFinder(GITHUB_TOKEN);
+    const finder = new AuthorRepositoryFinder(tokenPool);
     await finder.processAuthors();
   } catch (err) {
     console.error("Author Repository Finder error:", err);
   }
 }
 
-async function run(): Promise<void> {
-  if (!CONTINUOUS) {
+export type IndexerOptions = {
+  continuous: boolean;
+  cycleDelayMs: number;
+  authorFinder: boolean; // run the author repository finder after scans
+};
+
+export async function runIndexer(options: IndexerOptions = {
+  continuous: CONTINUOUS,
+  cycleDelayMs: CYCLE_DELAY_MS,
+  authorFinder: true
+}): Promise<void> {
+  if (tokenPool.size === 0) {
+    throw new Error("No GitHub credentials. Export GITHUB_TOKEN, a comma-separated GITHUB_TOKENS list, or GitHub App credentials (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY, GITHUB_APP_INSTALLATION_IDS).");
+  }
+  
+  if (!options.continuous) {
     await runOnce();
     
     // After initial scan, run the author repository finder once
-    console.log("\n=== Running Author Repository Finder ===");
-    await runAuthorRepositoryFinder();
+    if (options.authorFinder) {
+      console.log("\n=== Running Author Repository Finder ===");
+      await runAuthorRepositoryFinder();
+    }
     return;
   }
   
   let cycle = 0;
   let lastAuthorFinderRun = 0;
-  const AUTHOR_FINDER_INTERVAL_CYCLES = 24; // Run author finder every 24 cycles (about 6 hours if cycles are 15 min)
   
   while (true) {
     cycle += 1;
@@ -570,7 +1095,7 @@ async function run(): Promise<void> {
       await runOnce();
       
       // Run author repository finder periodically
-      if (cycle - lastAuthorFinderRun >= AUTHOR_FINDER_INTERVAL_CYCLES) {
+      if (options.authorFinder && cycle - lastAuthorFinderRun >= AUTHOR_FINDER_INTERVAL_CYCLES) {
         console.log(`\n=== Running Author Repository Finder (cycle ${cycle}) ===`);
         await runAuthorRepositoryFinder();
         lastAuthorFinderRun = cycle;
@@ -579,14 +1104,17 @@ async function run(): Promise<void> {
     } catch (err) {
       console.error("Cycle error:", err);
     }
-    console.log(`Sleeping ${formatDuration(CYCLE_DELAY_MS)} before next cycle...`);
-    await sleep(CYCLE_DELAY_MS);
+    console.log(`Sleeping ${formatDuration(options.cycleDelayMs)} before next cycle...`);
+    await sleep(options.cycleDelayMs);
   }
 }
 
-run().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+// CLI usage (see cli.ts for the full command set)
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runIndexer().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
 
 
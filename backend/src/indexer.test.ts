@@ -0,0 +1,70 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { FakeGitHubServer } from "./fake-github-server.js";
+import type { OxidePluginsFile } from "./published-types.js";
+
+// One indexer run against the fake GitHub API replaying backend/fixtures/github,
+// including the rate limited responses the fixtures start with
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-test-"));
+const server = new FakeGitHubServer({
+  port: 0,
+  fixturesDir: path.join(__dirname, "..", "fixtures", "github"),
+  record: false,
+  upstream: "https://api.github.com",
+  coreLimit: 0,
+  searchLimit: 0,
+  rateLimitWindowSec: 60
+});
+
+before(async () => {
+  // The configuration is read once per process, when the indexer is loaded
+  process.env.GITHUB_API_URL = await server.start();
+  process.env.GITHUB_TOKEN = "fake";
+  process.env.OUTPUT_DIR = outputDir;
+  process.env.TEMP_DIR = path.join(outputDir, "temp");
+  process.env.DATABASE_FILE = path.join(outputDir, "pipeline.db");
+});
+
+after(async () => {
+  const { closeStore } = await import("./plugin-store.js");
+  closeStore();
+  await server.stop();
+  fs.rmSync(outputDir, { recursive: true, force: true });
+});
+
+test("indexes the fixture plugin and completes the scan", async () => {
+  const { runIndexer } = await import("./index.js");
+  await runIndexer({ continuous: false, cycleDelayMs: 0, authorFinder: false });
+
+  const published = JSON.parse(fs.readFileSync(path.join(outputDir, "oxide_plugins.json"), "utf8")) as OxidePluginsFile;
+  assert.equal(published.schema_version, 1);
+  assert.equal(published.count, 1);
+  const [plugin] = published.items;
+  assert.ok(plugin);
+  assert.equal(plugin.plugin_name, "Hello World");
+  assert.equal(plugin.plugin_author, "ExampleDev");
+  assert.equal(plugin.plugin_version, "1.0.2");
+  assert.equal(plugin.repository.full_name, "example-dev/ExamplePlugins");
+  assert.equal(plugin.framework, "oxide");
+  assert.equal(plugin.game, "rust");
+
+  const { getStore } = await import("./plugin-store.js");
+  const state = getStore().loadRunState<Record<string, unknown>>("index");
+  assert.ok(state);
+  assert.equal(typeof state.lastFullScanAt, "string");
+  // A complete scan starts the next one from the beginning
+  assert.equal(state.currentSearch, 0);
+  assert.equal(state.currentPartition, 0);
+  assert.equal(state.currentPage, 1);
+  assert.deepEqual(state.seenKeys, {});
+  // The root range was over the result cap and got split
+  const [search] = state.searches as { partitionTree: { children?: unknown[] } }[];
+  assert.equal(search?.partitionTree.children?.length, 2);
+});
@@ -0,0 +1,86 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { MigrationError, currentVersion, migrateDocument, stampVersion } from "./migrations.js";
+
+const SEEN = { "example-dev/ExamplePlugins#HelloWorld.cs#abc": true };
+
+// Index state as written by the indexer before size partitioning
+function stateV10(currentVariant: number, currentPage: number): Record<string, unknown> {
+  return {
+    version: "1.0",
+    currentVariant,
+    currentPage,
+    seenKeys: SEEN,
+    repoCache: {
+      "example-dev/ExamplePlugins": { full_name: "example-dev/ExamplePlugins", fetched_at: "2026-01-01T00:00:00.000Z" }
+    },
+    lastFullScanAt: "2025-12-31T00:00:00.000Z",
+    query: "namespace Oxide.Plugins in:file language:C# extension:cs"
+  };
+}
+
+const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-test-"));
+
+after(async () => {
+  const { closeStore } = await import("./plugin-store.js");
+  closeStore();
+  fs.rmSync(outputDir, { recursive: true, force: true });
+});
+
+test("the 1.0 index state keeps its scan progress", () => {
+  const { document, from, applied } = migrateDocument("index-state", stateV10(0, 4));
+  assert.equal(from, 0);
+  assert.equal(applied.length, currentVersion("index-state"));
+  assert.deepEqual(document, {
+    schema_version: currentVersion("index-state"),
+    seenKeys: SEEN,
+    lastFullScanAt: "2025-12-31T00:00:00.000Z",
+    currentPartition: 0,
+    currentPage: 4,
+    verifyCursor: 0,
+    searches: [{ query: "namespace Oxide.Plugins in:file language:C# extension:cs", partitionTree: null }],
+    currentSearch: 0
+  });
+});
+
+test("a 1.0 scan past the first search variant restarts at the root partition", () => {
+  const { document } = migrateDocument("index-state", stateV10(7, 3));
+  assert.equal(document.currentPartition, 0);
+  assert.equal(document.currentPage, 1);
+  assert.deepEqual(document.seenKeys, SEEN);
+});
+
+test("the repository cache of a 1.0 state is imported into a new store", async () => {
+  fs.writeFileSync(path.join(outputDir, "state.json"), JSON.stringify(stateV10(0, 2)));
+  process.env.OUTPUT_DIR = outputDir;
+  process.env.DATABASE_FILE = path.join(outputDir, "pipeline.db");
+  const { getStore } = await import("./plugin-store.js");
+
+  const store = getStore();
+  assert.deepEqual(Object.keys(store.loadRepositories()), ["example-dev/ExamplePlugins"]);
+  const state = store.loadRunState<Record<string, unknown>>("index");
+  assert.equal(state?.currentPage, 2);
+  assert.deepEqual(state?.seenKeys, SEEN);
+});
+
+test("unknown and newer versions are rejected", () => {
+  assert.throws(() => migrateDocument("index-state", { version: "0.9" }),
+    (error: unknown) => error instanceof MigrationError && error.reason === "unsupported");
+  assert.throws(() => migrateDocument("index-state", { schema_version: currentVersion("index-state") + 1 }),
+    (error: unknown) => error instanceof MigrationError && error.reason === "newer");
+});
+
+test("published files without schema_version are upgraded", () => {
+  const { document, from, applied } = migrateDocument("oxide_plugins.json", { count: 0, items: [] });
+  assert.equal(from, 0);
+  assert.deepEqual(applied, ["0 -> 1: add schema_version"]);
+  assert.deepEqual(Object.keys(document), ["schema_version", "count", "items"]);
+});
+
+test("stamped documents list schema_version first", () => {
+  const stamped = stampVersion("crawl-state", { last_updated: "x", schema_version: 0 });
+  assert.deepEqual(Object.entries(stamped), [["schema_version", currentVersion("crawl-state")], ["last_updated", "x"]]);
+});
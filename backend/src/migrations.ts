@@ -0,0 +1,184 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { RunStage } from "./plugin-store.js";
+import { PUBLISHED_SCHEMAS, validatePublished, type PublishedFileName } from "./published-schemas.js";
+
+// Format versions of the published files and of each stage's run state. Every
+// document carries a `schema_version`; older documents are upgraded one version
+// at a time by the migrations below, so a format change never forces a re-index.
+// To change a format: bump `current` and add the migration from the previous version.
+
+export type DocumentKind = PublishedFileName | `${RunStage}-state`;
+
+export type VersionedDocument = Record<string, unknown>;
+
+type Migration = {
+  from: number;
+  description: string;
+  migrate: (document: VersionedDocument) => VersionedDocument;
+};
+
+type DocumentFormat = {
+  current: number;
+  // Version of a document written before `schema_version` existed
+  legacyVersion?: (document: VersionedDocument) => number;
+  migrations: Migration[];
+};
+
+export class MigrationError extends Error {
+  // "newer": written by a newer version of the pipeline; "unsupported": too old to upgrade
+  constructor(kind: DocumentKind, public readonly reason: "newer" | "unsupported", message: string) {
+    super(`Cannot migrate ${kind}: ${message}`);
+    this.name = "MigrationError";
+  }
+}
+
+// Published files gained `schema_version` without other changes
+function publishedFormat(fileName: PublishedFileName): DocumentFormat {
+  return {
+    current: PUBLISHED_SCHEMAS[fileName].version,
+    migrations: [
+      { from: 0, description: "add schema_version", migrate: (document) => document }
+    ]
+  };
+}
+
+const FORMATS: Record<DocumentKind, DocumentFormat> = {
+  "oxide_plugins.json": publishedFormat("oxide_plugins.json"),
+  "crawled_plugins.json": publishedFormat("crawled_plugins.json"),
+  "author_discovered_repositories.json": publishedFormat("author_discovered_repositories.json"),
+  // Introduced with schema_version
+  "changelog.json": { current: PUBLISHED_SCHEMAS["changelog.json"].version, migrations: [] },
+  "source_archive.json": { current: PUBLISHED_SCHEMAS["source_archive.json"].version, migrations: [] },
+
+  "index-state": {
+    current: 4,
+    // The indexer state used a `version` string
+    legacyVersion: (document) => ({ "1.0": 0, "1.1": 1, "1.2": 2 } as Record<string, number>)[String(document.version)] ?? 0,
+    migrations: [
+      {
+        from: 0,
+        description: "replace the fixed search variants with size partitions",
+        migrate: ({ currentVariant, currentPage, ...document }) => {
+          if (document.version !== "1.0" || typeof currentVariant !== "number") {
+            throw new MigrationError("index-state", "unsupported", `unknown state version ${JSON.stringify(document.version)}`);
+          }
+          // The first variant searched the whole query, which is what the root partition
+          // covers. Later variants searched subsets of it; the scan restarts at the root
+          // and skips the entries they already saw.
+          const resumePage = currentVariant === 0 && typeof currentPage === "number" ? currentPage : 1;
+          return {
+            ...document,
+            version: "1.1",
+            currentPartition: 0,
+            currentPage: resumePage,
+            partitionTree: null
+          };
+        }
+      },
+      {
+        from: 1,
+        description: "add the verification cursor for tombstoning",
+        migrate: (document) => ({ ...document, verifyCursor: 0 })
+      },
+      {
+        from: 2,
+        description: "replace the version string with schema_version; repository metadata moved to the store",
+        migrate: ({ version: _version, repoCache: _repoCache, ...document }) => document
+      },
+      {
+        from: 3,
+        description: "one partition tree per search query (discovery signatures)",
+        migrate: ({ query, partitionTree, ...document }) => ({
+          ...document,
+          searches: [{ query, partitionTree: partitionTree ?? null }],
+          currentSearch: 0
+        })
+      }
+    ]
+  },
+
+  "crawl-state": {
+    current: 1,
+    migrations: [
+      { from: 0, description: "add schema_version", migrate: (document) => document }
+    ]
+  },
+
+  "authors-state": {
+    current: 1,
+    migrations: [
+      { from: 0, description: "add schema_version", migrate: (document) => document }
+    ]
+  }
+};
+
+export function currentVersion(kind: DocumentKind): number {
+  return FORMATS[kind].current;
+}
+
+export function documentVersion(kind: DocumentKind, document: VersionedDocument): number {
+  if (typeof document.schema_version === "number") return document.schema_version;
+  return FORMATS[kind].legacyVersion?.(document) ?? 0;
+}
+
+// Upgrades a document to the current version; `applied` is empty when it already was
+export function migrateDocument(kind: DocumentKind, document: VersionedDocument): {
+  document: VersionedDocument;
+  from: number;
+  applied: string[];
+} {
+  const format = FORMATS[kind];
+  const from = documentVersion(kind, document);
+  if (from > format.current) {
+    throw new MigrationError(kind, "newer", `version ${from} was written by a newer version (supported up to ${format.current})`);
+  }
+
+  const applied: string[] = [];
+  let migrated = document;
+  for (let version = from; version < format.current; version++) {
+    const migration = format.migrations.find(m => m.from === version);
+    if (!migration) {
+      throw new MigrationError(kind, "unsupported", `no migration from version ${version}`);
+    }
+    const { schema_version: _previous, ...rest } = migration.migrate(migrated);
+    migrated = { schema_version: version + 1, ...rest };
+    applied.push(`${version} -> ${version + 1}: ${migration.description}`);
+  }
+  return { document: migrated, from, applied };
+}
+
+// Places schema_version first, as written files show it
+export function stampVersion<T extends object>(kind: DocumentKind, document: T): T & { schema_version: number } {
+  const { schema_version: _previous, ...rest } = document as T & { schema_version?: number };
+  return { schema_version: FORMATS[kind].current, ...rest } as T & { schema_version: number };
+}
+
+// JSON files the migration tool recognizes, by file name. State files are the ones
+// written before the store existed.
+const FILE_KINDS: Record<string, DocumentKind> = {
+  "oxide_plugins.json": "oxide_plugins.json",
+  "crawled_plugins.json": "crawled_plugins.json",
+  "author_discovered_repositories.json": "author_discovered_repositories.json",
+  "changelog.json": "changelog.json",
+  "source_archive.json": "source_archive.json",
+  "state.json": "index-state",
+  "crawler_state.json": "crawl-state",
+  "author_finder_state.json": "authors-state"
+};
+
+export function fileKind(filePath: string): DocumentKind | null {
+  return FILE_KINDS[path.basename(filePath)] ?? null;
+}
+
+// Upgrades a JSON file in place; published files are validated before they are written
+export function migrateFile(filePath: string, kind: DocumentKind, dryRun = false): { from: number; applied: string[] } {
+  const { document, from, applied } = migrateDocument(kind, JSON.parse(fs.readFileSync(filePath, "utf8")) as VersionedDocument);
+  if (applied.length > 0 && !dryRun) {
+    if (kind in PUBLISHED_SCHEMAS) validatePublished(kind as PublishedFileName, document);
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(document, null, 2), "utf8");
+    fs.renameSync(tmp, filePath);
+  }
+  return { from, applied };
+}
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { commitFromBlobUrl, fileLinks } from "./permalinks.js";
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+test("links are pinned to the commit and keep the branch links as latest", () => {
+  assert.deepEqual(fileLinks("owner/repo", "master", "plugins/A.cs", SHA), {
+    html_url: `https://github.com/owner/repo/blob/${SHA}/plugins/A.cs`,
+    raw_url: `https://raw.githubusercontent.com/owner/repo/${SHA}/plugins/A.cs`,
+    commit_sha: SHA,
+    latest_html_url: "https://github.com/owner/repo/blob/master/plugins/A.cs",
+    latest_raw_url: "https://raw.githubusercontent.com/owner/repo/master/plugins/A.cs"
+  });
+});
+
+test("without a full commit SHA only the branch links are returned", () => {
+  const branchLinks = {
+    html_url: "https://github.com/owner/repo/blob/main/A.cs",
+    raw_url: "https://raw.githubusercontent.com/owner/repo/main/A.cs"
+  };
+  assert.deepEqual(fileLinks("owner/repo", "main", "A.cs", null), branchLinks);
+  assert.deepEqual(fileLinks("owner/repo", "main", "A.cs", "abc123"), branchLinks);
+});
+
+test("the commit is read from code search blob URLs", () => {
+  assert.equal(commitFromBlobUrl(`https://github.com/owner/repo/blob/${SHA}/A.cs`), SHA);
+  assert.equal(commitFromBlobUrl("https://github.com/owner/repo/blob/main/A.cs"), null);
+});
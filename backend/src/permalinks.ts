@@ -0,0 +1,34 @@
+// GitHub links of a plugin file. Links pinned to the commit a file was indexed at
+// always show the code its metadata came from; the default-branch links are kept
+// as latest_html_url / latest_raw_url.
+
+export type FileLinks = {
+  html_url: string;
+  raw_url: string;
+  commit_sha?: string;
+  latest_html_url?: string;
+  latest_raw_url?: string;
+};
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+// Without a commit the branch links are all there is
+export function fileLinks(repoFullName: string, defaultBranch: string, filePath: string, commitSha: string | null): FileLinks {
+  const latest = {
+    html_url: `https://github.com/${repoFullName}/blob/${defaultBranch}/${filePath}`,
+    raw_url: `https://raw.githubusercontent.com/${repoFullName}/${defaultBranch}/${filePath}`
+  };
+  if (!commitSha || !COMMIT_SHA_PATTERN.test(commitSha)) return latest;
+  return {
+    html_url: `https://github.com/${repoFullName}/blob/${commitSha}/${filePath}`,
+    raw_url: `https://raw.githubusercontent.com/${repoFullName}/${commitSha}/${filePath}`,
+    commit_sha: commitSha,
+    latest_html_url: latest.html_url,
+    latest_raw_url: latest.raw_url
+  };
+}
+
+// Code search results link the file at the commit GitHub indexed: .../blob/<commit>/<path>
+export function commitFromBlobUrl(htmlUrl: string): string | null {
+  return htmlUrl.match(/\/blob\/([0-9a-f]{40})\//)?.[1] ?? null;
+}
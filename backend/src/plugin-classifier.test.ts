@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifyPlugin } from "./plugin-classifier.js";
+
+test("game-specific Oxide base classes set the game", () => {
+  assert.deepEqual(classifyPlugin("namespace Oxide.Plugins { class A : RustPlugin {} }"), { framework: "oxide", game: "rust" });
+  assert.deepEqual(classifyPlugin("namespace Oxide.Plugins { class A : Oxide.Plugins.HurtworldPlugin {} }"), { framework: "oxide", game: "hurtworld" });
+});
+
+test("Carbon sources are recognized by namespace, using directive or base class", () => {
+  assert.deepEqual(classifyPlugin("namespace Carbon.Plugins { class A : CovalencePlugin {} }"), { framework: "carbon", game: "rust" });
+  assert.deepEqual(classifyPlugin("using Carbon.Core;\nnamespace Oxide.Plugins { class A : RustPlugin {} }"), { framework: "carbon", game: "rust" });
+  assert.deepEqual(classifyPlugin("namespace Oxide.Plugins { class A : CarbonPlugin {} }"), { framework: "carbon", game: "rust" });
+});
+
+test("game using directives apply when the base class names no game", () => {
+  const source = "using Oxide.Game.SevenDays;\nnamespace Oxide.Plugins { class A : CovalencePlugin {} }";
+  assert.deepEqual(classifyPlugin(source), { framework: "oxide", game: "seven_days_to_die" });
+});
+
+test("Covalence plugins without game references are universal, anything else unknown", () => {
+  assert.deepEqual(classifyPlugin("namespace Oxide.Plugins { class A : CovalencePlugin {} }"), { framework: "oxide", game: "universal" });
+  assert.deepEqual(classifyPlugin("namespace Oxide.Plugins { class A {} }"), { framework: "oxide", game: "unknown" });
+});
+
+test("the plugin class limits which base classes count", () => {
+  const source = "namespace Oxide.Plugins { class A : CovalencePlugin {} class B : UnturnedPlugin {} }";
+  assert.deepEqual(classifyPlugin(source, "A"), { framework: "oxide", game: "universal" });
+  assert.deepEqual(classifyPlugin(source, "B"), { framework: "oxide", game: "unturned" });
+});
@@ -0,0 +1,68 @@
+import type { PluginFramework, PluginGame } from "./published-types.js";
+
+// Classifies a plugin source by framework (Oxide or Carbon) and game, from its
+// namespace, the base class of its plugin class and its `using` directives.
+// Carbon runs Oxide plugins unchanged, so only Carbon-specific sources count as Carbon.
+
+export type PluginClassification = {
+  framework: PluginFramework;
+  game: PluginGame;
+};
+
+// Game-specific plugin base classes of Oxide and Carbon
+const BASE_CLASS_GAMES: Record<string, PluginGame> = {
+  RustPlugin: "rust",
+  CarbonPlugin: "rust",
+  RustLegacyPlugin: "rust_legacy",
+  HurtworldPlugin: "hurtworld",
+  SevenDaysPlugin: "seven_days_to_die",
+  ReignOfKingsPlugin: "reign_of_kings",
+  TheForestPlugin: "the_forest",
+  UnturnedPlugin: "unturned",
+  SpaceEngineersPlugin: "space_engineers"
+};
+
+// Oxide.Game.<extension> namespaces
+const GAME_EXTENSIONS: Record<string, PluginGame> = {
+  Rust: "rust",
+  RustLegacy: "rust_legacy",
+  Hurtworld: "hurtworld",
+  SevenDays: "seven_days_to_die",
+  ReignOfKings: "reign_of_kings",
+  TheForest: "the_forest",
+  Unturned: "unturned",
+  SpaceEngineers: "space_engineers"
+};
+
+const CARBON_PATTERNS = [
+  /^\s*namespace\s+Carbon\.Plugins\b/m,
+  /^\s*using\s+Carbon(?:\.[\w.]+)?\s*;/m
+];
+
+// `class Name : Base` with an optionally qualified base, e.g. Oxide.Plugins.RustPlugin
+const BASE_CLASS_PATTERN = /\bclass\s+(\w+)\s*:\s*(?:\w+\.)*(\w+Plugin)\b/g;
+
+const GAME_USING_PATTERN = /^\s*using\s+(?:\w+\s*=\s*)?Oxide\.Game\.(\w+)/gm;
+
+// `pluginClass` limits the base classes to that class, for files that declare several plugins
+export function classifyPlugin(source: string, pluginClass?: string): PluginClassification {
+  const baseClasses = Array.from(source.matchAll(BASE_CLASS_PATTERN))
+    .filter(m => pluginClass === undefined || m[1] === pluginClass)
+    .map(m => m[2]!);
+  const framework: PluginFramework = baseClasses.includes("CarbonPlugin") || CARBON_PATTERNS.some(p => p.test(source))
+    ? "carbon"
+    : "oxide";
+
+  for (const baseClass of baseClasses) {
+    const game = BASE_CLASS_GAMES[baseClass];
+    if (game) return { framework, game };
+  }
+  for (const match of source.matchAll(GAME_USING_PATTERN)) {
+    const game = GAME_EXTENSIONS[match[1]!];
+    if (game) return { framework, game };
+  }
+  // Carbon exists for Rust only
+  if (framework === "carbon") return { framework, game: "rust" };
+  if (baseClasses.includes("CovalencePlugin")) return { framework, game: "universal" };
+  return { framework, game: "unknown" };
+}
@@ -0,0 +1,662 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { getConfig } from "./config.js";
+import type { CrawlFailureCategory, CrawlFailureRecord } from "./crawl-failures.js";
+import { MigrationError, migrateDocument, stampVersion, type DocumentKind, type VersionedDocument } from "./migrations.js";
+import { writePublishedFile } from "./published-schemas.js";
+import type { Changeset, PluginChange, PublishedFiles } from "./published-types.js";
+
+// Embedded SQLite store for plugin records and pipeline state. Writes are row
+// upserts inside transactions, so a crash loses at most the uncommitted batch;
+// the published JSON files are exports generated from here.
+
+export type PluginSource = "index" | "crawl";
+
+export type RunStage = "index" | "crawl" | "authors";
+
+export type CrawlStatus = {
+  last_crawled: string;
+  plugins_count: number;
+  success: boolean;
+  errors: string[];
+  commit_sha?: string; // HEAD of the default branch when it was crawled
+  checked_at?: string; // last upstream check that found no new commit
+  failure?: CrawlFailureRecord; // set while the repository fails to crawl
+};
+
+export type AuthorRecord = {
+  last_processed: string;
+  repositories_found: number;
+  success: boolean;
+  error?: string;
+};
+
+// An archived source blob of a plugin file
+export type PluginBlob = {
+  repo_full_name: string;
+  file_path: string;
+  sha: string;
+  size: number;
+  plugin_version: string | null;
+  first_seen: string;
+  last_seen: string;
+};
+
+type PluginRow = { key: string; data: string };
+
+// Published export of each plugin source
+const EXPORT_FILES = {
+  index: "oxide_plugins.json",
+  crawl: "crawled_plugins.json"
+} as const satisfies Record<PluginSource, keyof PublishedFiles>;
+
+// Database schema migrations; entry i upgrades PRAGMA user_version i to i + 1.
+// The first one is idempotent because databases created before versioning have
+// its tables but user_version 0.
+const STORE_MIGRATIONS = [`
+CREATE TABLE IF NOT EXISTS plugins (
+  source TEXT NOT NULL,
+  key TEXT NOT NULL,
+  repo_full_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  plugin_name TEXT,
+  removed_at TEXT,
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (source, key)
+);
+CREATE INDEX IF NOT EXISTS plugins_repo ON plugins (repo_full_name);
+
+CREATE TABLE IF NOT EXISTS repositories (
+  full_name TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  fetched_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS parse_cache (
+  sha TEXT PRIMARY KEY,
+  data TEXT
+);
+
+CREATE TABLE IF NOT EXISTS authors (
+  login TEXT PRIMARY KEY,
+  last_processed TEXT NOT NULL,
+  repositories_found INTEGER NOT NULL,
+  success INTEGER NOT NULL,
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS discovered_repositories (
+  full_name TEXT PRIMARY KEY,
+  discovered_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS crawl_status (
+  repository TEXT PRIMARY KEY,
+  last_crawled TEXT NOT NULL,
+  plugins_count INTEGER NOT NULL,
+  success INTEGER NOT NULL,
+  errors TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS crawl_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repository TEXT NOT NULL,
+  crawled_at TEXT NOT NULL,
+  plugins_count INTEGER NOT NULL,
+  success INTEGER NOT NULL,
+  errors TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS crawl_history_repository ON crawl_history (repository);
+
+CREATE TABLE IF NOT EXISTS run_state (
+  stage TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+`, `
+CREATE TABLE changesets (
+  run_id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  completed_at TEXT
+);
+
+CREATE TABLE changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX changes_run ON changes (run_id);
+`, `
+CREATE TABLE archive_blobs (
+  sha TEXT PRIMARY KEY,
+  size INTEGER NOT NULL,
+  archived_at TEXT NOT NULL
+);
+
+CREATE TABLE plugin_blobs (
+  repo_full_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  sha TEXT NOT NULL,
+  plugin_version TEXT,
+  first_seen TEXT NOT NULL,
+  last_seen TEXT NOT NULL,
+  PRIMARY KEY (repo_full_name, file_path, sha)
+);
+`, `
+ALTER TABLE crawl_status ADD COLUMN commit_sha TEXT;
+ALTER TABLE crawl_status ADD COLUMN checked_at TEXT;
+ALTER TABLE crawl_history ADD COLUMN commit_sha TEXT;
+`, `
+ALTER TABLE crawl_status ADD COLUMN failure_category TEXT;
+ALTER TABLE crawl_status ADD COLUMN failure_attempts INTEGER;
+ALTER TABLE crawl_status ADD COLUMN next_retry_at TEXT;
+ALTER TABLE crawl_history ADD COLUMN failure_category TEXT;
+`];
+
+// Plugin records carry their location; both indexed and crawled items share this shape
+type StoredPlugin = {
+  plugin_name?: string | null;
+  file: { path: string };
+  repository: { full_name: string };
+  removed_at?: string;
+};
+
+export class PluginStore {
+  private db: Database.Database;
+
+  constructor(readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    // Rollback journal rather than WAL: the file is committed by CI and must be
+    // self-contained after every transaction
+    this.db.pragma("journal_mode = DELETE");
+    this.db.pragma("synchronous = NORMAL");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version > STORE_MIGRATIONS.length) {
+      throw new Error(`${this.filePath} has schema version ${version}, newer than this version supports (${STORE_MIGRATIONS.length})`);
+    }
+    STORE_MIGRATIONS.slice(version).forEach((sql, offset) => {
+      this.transaction(() => {
+        this.db.exec(sql);
+        this.db.pragma(`user_version = ${version + offset + 1}`);
+      });
+    });
+  }
+
+  close(): void {
+    if (this.db.open) this.db.close();
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  // Plugins
+
+  countPlugins(source: PluginSource): number {
+    const row = this.db.prepare("SELECT COUNT(*) AS count FROM plugins WHERE source = ?").get(source) as { count: number };
+    return row.count;
+  }
+
+  loadPlugins<T extends StoredPlugin>(source: PluginSource): Map<string, T> {
+    const rows = this.db.prepare("SELECT key, data FROM plugins WHERE source = ? ORDER BY rowid").all(source) as PluginRow[];
+    return new Map(rows.map(row => [row.key, JSON.parse(row.data) as T]));
+  }
+
+  loadRepositoryPlugins<T extends StoredPlugin>(source: PluginSource, repoFullName: string): T[] {
+    const rows = this.db.prepare("SELECT key, data FROM plugins WHERE source = ? AND repo_full_name = ? ORDER BY rowid").all(source, repoFullName) as PluginRow[];
+    return rows.map(row => JSON.parse(row.data) as T);
+  }
+
+  upsertPlugins(source: PluginSource, entries: [string, StoredPlugin][]): void {
+    const statement = this.db.prepare(`
+      INSERT INTO plugins (source, key, repo_full_name, file_path, plugin_name, removed_at, data, updated_at)
+      VALUES (@source, @key, @repo, @path, @name, @removedAt, @data, @now)
+      ON CONFLICT (source, key) DO UPDATE SET
+        repo_full_name = excluded.repo_full_name,
+        file_path = excluded.file_path,
+        plugin_name = excluded.plugin_name,
+        removed_at = excluded.removed_at,
+        data = excluded.data,
+        updated_at = excluded.updated_at
+    `);
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const [key, plugin] of entries) {
+        statement.run(this.pluginParams(source, key, plugin, now));
+      }
+    });
+  }
+
+  deletePlugins(source: PluginSource, keys: string[]): void {
+    const statement = this.db.prepare("DELETE FROM plugins WHERE source = ? AND key = ?");
+    this.transaction(() => {
+      for (const key of keys) statement.run(source, key);
+    });
+  }
+
+  // Swaps all entries of one repository for a fresh set
+  replaceRepositoryPlugins(source: PluginSource, repoFullName: string, entries: [string, StoredPlugin][]): void {
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM plugins WHERE source = ? AND repo_full_name = ?").run(source, repoFullName);
+      this.upsertPlugins(source, entries);
+    });
+  }
+
+  // Repository owners across all plugin sources, i.e. the known plugin authors
+  listRepositoryOwners(): string[] {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT json_extract(data, '$.repository.owner_login') AS owner
+      FROM plugins
+      WHERE owner IS NOT NULL AND owner != ''
+      ORDER BY owner
+    `).all() as { owner: string }[];
+    return rows.map(row => row.owner);
+  }
+
+  private pluginParams(source: PluginSource, key: string, plugin: StoredPlugin, now: string) {
+    return {
+      source,
+      key,
+      repo: plugin.repository.full_name,
+      path: plugin.file.path,
+      name: plugin.plugin_name ?? null,
+      removedAt: plugin.removed_at ?? null,
+      data: JSON.stringify(plugin),
+      now
+    };
+  }
+
+  // Writes the published JSON export of a source, validated against its schema;
+  // `compare` orders the items
+  exportPlugins<T extends StoredPlugin>(source: PluginSource, outputDir: string, query: string, compare?: (a: T, b: T) => number): number {
+    const items = Array.from(this.loadPlugins<T>(source).values());
+    if (compare) items.sort(compare);
+    const fileName = EXPORT_FILES[source];
+    const payload = {
+      generated_at: new Date().toISOString(),
+      query,
+      count: items.length,
+      items
+    };
+    // Records are stored as JSON; the schema check proves the shape
+    writePublishedFile(outputDir, fileName, payload as unknown as Omit<PublishedFiles[typeof fileName], "schema_version">);
+    return items.length;
+  }
+
+  // Repository metadata
+
+  loadRepositories<T>(): Record<string, T> {
+    const rows = this.db.prepare("SELECT full_name, data FROM repositories").all() as { full_name: string; data: string }[];
+    return Object.fromEntries(rows.map(row => [row.full_name, JSON.parse(row.data) as T]));
+  }
+
+  upsertRepository(fullName: string, data: unknown, fetchedAt: string): void {
+    this.db.prepare(`
+      INSERT INTO repositories (full_name, data, fetched_at) VALUES (?, ?, ?)
+      ON CONFLICT (full_name) DO UPDATE SET data = excluded.data, fetched_at = excluded.fetched_at
+    `).run(fullName, JSON.stringify(data), fetchedAt);
+  }
+
+  deleteRepositoriesFetchedBefore(cutoff: string): number {
+    return this.db.prepare("DELETE FROM repositories WHERE fetched_at < ?").run(cutoff).changes;
+  }
+
+  // Parse cache (blob SHA -> parse result, null for files without metadata)
+
+  loadParseCache<T>(): Record<string, T | null> {
+    const rows = this.db.prepare("SELECT sha, data FROM parse_cache").all() as { sha: string; data: string | null }[];
+    return Object.fromEntries(rows.map(row => [row.sha, row.data === null ? null : JSON.parse(row.data) as T]));
+  }
+
+  saveParse(sha: string, data: unknown): void {
+    this.db.prepare("INSERT OR REPLACE INTO parse_cache (sha, data) VALUES (?, ?)")
+      .run(sha, data === null ? null : JSON.stringify(data));
+  }
+
+  // Run state (resume positions and counters per stage), versioned by migrations.ts
+
+  // State in an older format is upgraded in memory and stored on the next save;
+  // state too old to upgrade is dropped, so the stage starts over
+  loadRunState<T>(stage: RunStage): T | null {
+    const row = this.db.prepare("SELECT data FROM run_state WHERE stage = ?").get(stage) as { data: string } | undefined;
+    if (!row) return null;
+    try {
+      const { document, applied } = migrateDocument(`${stage}-state`, JSON.parse(row.data) as VersionedDocument);
+      if (applied.length > 0) console.log(`Migrated ${stage} state: ${applied.join("; ")}`);
+      return document as T;
+    } catch (err) {
+      if (!(err instanceof MigrationError) || err.reason === "newer") throw err;
+      console.warn(`${err.message}; starting ${stage} over`);
+      return null;
+    }
+  }
+
+  // Upgrades every stored run state now instead of on the next save
+  migrateRunStates(dryRun = false): { stage: RunStage; from: number; applied: string[] }[] {
+    const rows = this.db.prepare("SELECT stage, data FROM run_state ORDER BY stage").all() as { stage: RunStage; data: string }[];
+    return rows.map(({ stage, data }) => {
+      const { document, from, applied } = migrateDocument(`${stage}-state`, JSON.parse(data) as VersionedDocument);
+      if (applied.length > 0 && !dryRun) this.saveRunState(stage, document);
+      return { stage, from, applied };
+    });
+  }
+
+  // Stamps the current schema_version; `data` must already be in the current format
+  saveRunState(stage: RunStage, data: object): void {
+    this.db.prepare(`
+      INSERT INTO run_state (stage, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (stage) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(stage, JSON.stringify(stampVersion(`${stage}-state`, data)), new Date().toISOString());
+  }
+
+  // Forgets a stage's progress; stored records are kept
+  resetStage(stage: RunStage): void {
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM run_state WHERE stage = ?").run(stage);
+      if (stage === "crawl") this.db.prepare("DELETE FROM crawl_status").run();
+      if (stage === "authors") this.db.prepare("DELETE FROM authors").run();
+    });
+  }
+
+  // Changesets (plugins added, updated and removed per run)
+
+  startChangeset(runId: string, source: PluginSource, startedAt: string): void {
+    this.db.prepare("INSERT INTO changesets (run_id, source, started_at) VALUES (?, ?, ?)").run(runId, source, startedAt);
+  }
+
+  recordChanges(runId: string, changes: PluginChange[]): void {
+    const statement = this.db.prepare("INSERT INTO changes (run_id, kind, data) VALUES (?, ?, ?)");
+    this.transaction(() => {
+      for (const change of changes) statement.run(runId, change.kind, JSON.stringify(change));
+    });
+  }
+
+  // Marks a run finished; a run without changes leaves no changeset behind
+  completeChangeset(runId: string): void {
+    this.transaction(() => {
+      const { count } = this.db.prepare("SELECT COUNT(*) AS count FROM changes WHERE run_id = ?").get(runId) as { count: number };
+      if (count === 0) {
+        this.db.prepare("DELETE FROM changesets WHERE run_id = ?").run(runId);
+      } else {
+        this.db.prepare("UPDATE changesets SET completed_at = ? WHERE run_id = ?").run(new Date().toISOString(), runId);
+      }
+    });
+  }
+
+  // Changesets of runs started at or after `since`, newest first
+  loadChangesets(since: string): Changeset[] {
+    const runs = this.db.prepare("SELECT * FROM changesets WHERE started_at >= ? ORDER BY started_at DESC").all(since) as {
+      run_id: string; source: PluginSource; started_at: string; completed_at: string | null;
+    }[];
+    const changes = this.db.prepare("SELECT data FROM changes WHERE run_id = ? ORDER BY id");
+    return runs.map((run) => {
+      const entries = (changes.all(run.run_id) as { data: string }[]).map(row => JSON.parse(row.data) as PluginChange);
+      return {
+        ...run,
+        added: entries.filter(c => c.kind === "added").length,
+        updated: entries.filter(c => c.kind === "updated").length,
+        removed: entries.filter(c => c.kind === "removed").length,
+        changes: entries
+      };
+    });
+  }
+
+  deleteChangesetsBefore(cutoff: string): number {
+    return this.transaction(() => {
+      this.db.prepare("DELETE FROM changes WHERE run_id IN (SELECT run_id FROM changesets WHERE started_at < ?)").run(cutoff);
+      return this.db.prepare("DELETE FROM changesets WHERE started_at < ?").run(cutoff).changes;
+    });
+  }
+
+  // Source archive (blob files live in the output directory, see source-archive.ts)
+
+  hasArchivedBlob(sha: string): boolean {
+    return this.db.prepare("SELECT 1 FROM archive_blobs WHERE sha = ?").get(sha) !== undefined;
+  }
+
+  saveArchivedBlob(sha: string, size: number): void {
+    this.db.prepare("INSERT OR IGNORE INTO archive_blobs (sha, size, archived_at) VALUES (?, ?, ?)")
+      .run(sha, size, new Date().toISOString());
+  }
+
+  // Records that a plugin file had this blob; returns true when the pair is new
+  linkPluginBlob(repoFullName: string, filePath: string, sha: string, pluginVersion: string | null, seenAt: string): boolean {
+    const inserted = this.db.prepare(`
+      INSERT OR IGNORE INTO plugin_blobs (repo_full_name, file_path, sha, plugin_version, first_seen, last_seen)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(repoFullName, filePath, sha, pluginVersion, seenAt, seenAt).changes > 0;
+    if (!inserted) {
+      this.db.prepare("UPDATE plugin_blobs SET last_seen = ? WHERE repo_full_name = ? AND file_path = ? AND sha = ? AND last_seen < ?")
+        .run(seenAt, repoFullName, filePath, sha, seenAt);
+    }
+    return inserted;
+  }
+
+  // Archived blobs per plugin file, newest first
+  loadPluginBlobs(): PluginBlob[] {
+    return this.db.prepare(`
+      SELECT p.repo_full_name, p.file_path, p.sha, b.size, p.plugin_version, p.first_seen, p.last_seen
+      FROM plugin_blobs p JOIN archive_blobs b ON b.sha = p.sha
+      ORDER BY p.repo_full_name, p.file_path, p.first_seen DESC, p.sha
+    `).all() as PluginBlob[];
+  }
+
+  // Crawl status and history
+
+  loadCrawlStatus(): Record<string, CrawlStatus> {
+    const rows = this.db.prepare("SELECT * FROM crawl_status").all() as {
+      repository: string; last_crawled: string; plugins_count: number; success: number; errors: string;
+      commit_sha: string | null; checked_at: string | null;
+      failure_category: CrawlFailureCategory | null; failure_attempts: number | null; next_retry_at: string | null;
+    }[];
+    return Object.fromEntries(rows.map(row => [row.repository, {
+      last_crawled: row.last_crawled,
+      plugins_count: row.plugins_count,
+      success: row.success === 1,
+      errors: JSON.parse(row.errors) as string[],
+      ...(row.commit_sha ? { commit_sha: row.commit_sha } : {}),
+      ...(row.checked_at ? { checked_at: row.checked_at } : {}),
+      ...(row.failure_category ? {
+        failure: { category: row.failure_category, attempts: row.failure_attempts ?? 1, next_retry_at: row.next_retry_at }
+      } : {})
+    }]));
+  }
+
+  // Current status of a repository; finished attempts are also appended to the history
+  saveCrawlStatus(repository: string, status: CrawlStatus, finished = true): void {
+    const params = [
+      repository, status.last_crawled, status.plugins_count, status.success ? 1 : 0, JSON.stringify(status.errors),
+      status.commit_sha ?? null, status.failure?.category ?? null
+    ];
+    this.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO crawl_status (repository, last_crawled, plugins_count, success, errors, commit_sha, failure_category, checked_at, failure_attempts, next_retry_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (repository) DO UPDATE SET
+          last_crawled = excluded.last_crawled,
+          plugins_count = excluded.plugins_count,
+          success = excluded.success,
+          errors = excluded.errors,
+          commit_sha = excluded.commit_sha,
+          failure_category = excluded.failure_category,
+          checked_at = excluded.checked_at,
+          failure_attempts = excluded.failure_attempts,
+          next_retry_at = excluded.next_retry_at
+      `).run(...params, status.checked_at ?? null, status.failure?.attempts ?? null, status.failure?.next_retry_at ?? null);
+      if (finished) {
+        this.db.prepare("INSERT INTO crawl_history (repository, crawled_at, plugins_count, success, errors, commit_sha, failure_category) VALUES (?, ?, ?, ?, ?, ?, ?)")
+          .run(...params);
+      }
+    });
+  }
+
+  // Records an upstream check of repositories; history only lists crawls
+  markCrawlChecked(repositories: string[], checkedAt: string): void {
+    const statement = this.db.prepare("UPDATE crawl_status SET checked_at = ? WHERE repository = ?");
+    this.transaction(() => {
+      for (const repository of repositories) statement.run(checkedAt, repository);
+    });
+  }
+
+  // Forgets the current status of repositories, e.g. ones a run never finished; history is kept
+  deleteCrawlStatus(repositories: string[]): void {
+    const statement = this.db.prepare("DELETE FROM crawl_status WHERE repository = ?");
+    this.transaction(() => {
+      for (const repository of repositories) statement.run(repository);
+    });
+  }
+
+  // Authors
+
+  loadAuthors(): Record<string, AuthorRecord> {
+    const rows = this.db.prepare("SELECT * FROM authors").all() as {
+      login: string; last_processed: string; repositories_found: number; success: number; error: string | null;
+    }[];
+    return Object.fromEntries(rows.map(row => [row.login, {
+      last_processed: row.last_processed,
+      repositories_found: row.repositories_found,
+      success: row.success === 1,
+      ...(row.error !== null ? { error: row.error } : {})
+    }]));
+  }
+
+  saveAuthor(login: string, record: AuthorRecord): void {
+    this.db.prepare(`
+      INSERT INTO authors (login, last_processed, repositories_found, success, error) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (login) DO UPDATE SET
+        last_processed = excluded.last_processed,
+        repositories_found = excluded.repositories_found,
+        success = excluded.success,
+        error = excluded.error
+    `).run(login, record.last_processed, record.repositories_found, record.success ? 1 : 0, record.error ?? null);
+  }
+
+  loadDiscoveredRepositories(): string[] {
+    const rows = this.db.prepare("SELECT full_name FROM discovered_repositories ORDER BY full_name").all() as { full_name: string }[];
+    return rows.map(row => row.full_name);
+  }
+
+  addDiscoveredRepositories(fullNames: string[]): void {
+    const statement = this.db.prepare("INSERT OR IGNORE INTO discovered_repositories (full_name, discovered_at) VALUES (?, ?)");
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const fullName of fullNames) statement.run(fullName, now);
+    });
+  }
+}
+
+function readLegacyJson(filePath: string): VersionedDocument | null {
+  try {
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as VersionedDocument;
+  } catch (err) {
+    console.warn(`Skipping unreadable ${filePath}: ${(err as Error).message}`);
+    return null;
+  }
+}
+
+// Upgrades a legacy document to the current format, or skips it
+function upgradeLegacy<T>(kind: DocumentKind, document: VersionedDocument | null): T | null {
+  if (!document) return null;
+  try {
+    return migrateDocument(kind, document).document as T;
+  } catch (err) {
+    console.warn(`Skipping legacy ${kind}: ${(err as Error).message}`);
+    return null;
+  }
+}
+
+type LegacyPlugin = StoredPlugin & { file: { path: string; sha?: string } };
+
+type LegacyIndexerState = Record<string, unknown> & {
+  repoCache?: Record<string, { full_name: string; fetched_at?: string }>;
+};
+
+type LegacyCrawlerState = Record<string, unknown> & {
+  processed_repositories?: Record<string, CrawlStatus>;
+};
+
+type LegacyAuthorFinderState = Record<string, unknown> & {
+  processed_authors?: Record<string, AuthorRecord>;
+  discovered_repositories?: string[];
+};
+
+// Seeds a new store from the JSON files earlier versions used for persistence
+function importLegacyFiles(store: PluginStore, outputDir: string): void {
+  const read = (fileName: string) => readLegacyJson(path.join(outputDir, fileName));
+  const rawIndexerState = read("state.json");
+  const indexed = upgradeLegacy<{ items?: LegacyPlugin[] }>("oxide_plugins.json", read("oxide_plugins.json"));
+  const indexerState = upgradeLegacy<VersionedDocument>("index-state", rawIndexerState);
+  const crawled = upgradeLegacy<{ items?: LegacyPlugin[] }>("crawled_plugins.json", read("crawled_plugins.json"));
+  const crawlerState = upgradeLegacy<LegacyCrawlerState>("crawl-state", read("crawler_state.json"));
+  const authorState = upgradeLegacy<LegacyAuthorFinderState>("authors-state", read("author_finder_state.json"));
+  // Caches are not versioned: the repository cache is taken from the state as is
+  const repoCache = (rawIndexerState as LegacyIndexerState | null)?.repoCache ?? {};
+  const parseCache = read("parse_cache.json") as { entries?: Record<string, unknown> } | null;
+  if (!indexed && !rawIndexerState && !parseCache && !crawled && !crawlerState && !authorState) return;
+
+  const indexedItems = indexed?.items ?? [];
+  const crawledItems = crawled?.items ?? [];
+  store.transaction(() => {
+    store.upsertPlugins("index", indexedItems.map((item): [string, StoredPlugin] =>
+      [`${item.repository.full_name}#${item.file.path}#${item.file.sha ?? ""}`, item]));
+    // Entries cached before GraphQL metadata have no fetch time and are refetched anyway
+    for (const repo of Object.values(repoCache)) {
+      if (repo.fetched_at) store.upsertRepository(repo.full_name, repo, repo.fetched_at);
+    }
+    if (indexerState) store.saveRunState("index", indexerState);
+    for (const [sha, info] of Object.entries(parseCache?.entries ?? {})) {
+      store.saveParse(sha, info);
+    }
+
+    store.upsertPlugins("crawl", crawledItems.map((item): [string, StoredPlugin] =>
+      [`${item.repository.full_name}#${item.file.path}`, item]));
+    if (crawlerState) {
+      const { processed_repositories = {}, ...state } = crawlerState;
+      for (const [repository, status] of Object.entries(processed_repositories)) {
+        store.saveCrawlStatus(repository, status);
+      }
+      store.saveRunState("crawl", state);
+    }
+
+    if (authorState) {
+      const { processed_authors = {}, discovered_repositories = [], ...state } = authorState;
+      for (const [login, record] of Object.entries(processed_authors)) {
+        store.saveAuthor(login, record);
+      }
+      store.addDiscoveredRepositories(discovered_repositories);
+      store.saveRunState("authors", state);
+    }
+  });
+  console.log(`Imported ${indexedItems.length} indexed and ${crawledItems.length} crawled plugins, ` +
+    `${Object.keys(crawlerState?.processed_repositories ?? {}).length} crawl statuses and ` +
+    `${Object.keys(authorState?.processed_authors ?? {}).length} authors from JSON files into ${store.filePath}`);
+}
+
+let sharedStore: PluginStore | null = null;
+
+// One connection per process, opened on first use. A new database file is seeded
+// from the JSON files in the output directory.
+export function getStore(): PluginStore {
+  if (!sharedStore) {
+    const config = getConfig();
+    const isNew = !fs.existsSync(config.paths.database);
+    sharedStore = new PluginStore(config.paths.database);
+    if (isNew) importLegacyFiles(sharedStore, config.paths.outputDir);
+  }
+  return sharedStore;
+}
+
+export function closeStore(): void {
+  sharedStore?.close();
+  sharedStore = null;
+}
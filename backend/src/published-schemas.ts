@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Ajv2020, type ValidateFunction } from "ajv/dist/2020.js";
+import addFormatsPlugin from "ajv-formats";
+import type { PublishedFiles } from "./published-types.js";
+
+// JSON Schemas of the files in output/ that the frontend reads (backend/schemas).
+// Every export is validated before it is written, and published-types.ts is
+// generated from the same schemas (generate-schema-types.ts).
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const SCHEMA_DIR = path.join(__dirname, "..", "schemas");
+
+export type PublishedFileName = keyof PublishedFiles;
+
+// Published file -> schema file and the schema_version it requires. A format change
+// gets a new schema file, a bumped version and a migration in migrations.ts.
+export const PUBLISHED_SCHEMAS: Record<PublishedFileName, { schema: string; version: number }> = {
+  "oxide_plugins.json": { schema: "oxide-plugins.v1.schema.json", version: 1 },
+  "crawled_plugins.json": { schema: "crawled-plugins.v1.schema.json", version: 1 },
+  "author_discovered_repositories.json": { schema: "author-discovered-repositories.v1.schema.json", version: 1 },
+  "changelog.json": { schema: "changelog.v1.schema.json", version: 1 },
+  "source_archive.json": { schema: "source-archive.v1.schema.json", version: 1 }
+};
+
+// Referenced by the published schemas, never validated on its own
+const SHARED_SCHEMAS = ["common.v1.schema.json"];
+
+// Reported problems per file; the rest are summarized
+const MAX_REPORTED_PROBLEMS = 10;
+
+export class SchemaValidationError extends Error {
+  constructor(fileName: string, schemaFile: string, public readonly problems: string[]) {
+    super(`${fileName} does not match ${schemaFile}:\n${problems.map(p => `  - ${p}`).join("\n")}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+// ajv-formats is CommonJS; the default export is the plugin function at runtime
+const addFormats = addFormatsPlugin as unknown as (ajv: Ajv2020) => Ajv2020;
+
+let ajv: Ajv2020 | null = null;
+const validators = new Map<PublishedFileName, ValidateFunction>();
+
+function readSchema(fileName: string): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(path.join(SCHEMA_DIR, fileName), "utf8")) as Record<string, unknown>;
+}
+
+function getValidator(fileName: PublishedFileName): ValidateFunction {
+  let validate = validators.get(fileName);
+  if (!validate) {
+    if (!ajv) {
+      ajv = addFormats(new Ajv2020({ allErrors: true, strict: true }));
+      for (const shared of SHARED_SCHEMAS) ajv.addSchema(readSchema(shared));
+    }
+    validate = ajv.compile(readSchema(PUBLISHED_SCHEMAS[fileName].schema));
+    validators.set(fileName, validate);
+  }
+  return validate;
+}
+
+export function validatePublished<K extends PublishedFileName>(fileName: K, payload: unknown): asserts payload is PublishedFiles[K] {
+  const validate = getValidator(fileName);
+  if (validate(payload)) return;
+
+  const errors = validate.errors ?? [];
+  const problems = errors.slice(0, MAX_REPORTED_PROBLEMS).map(e => `${e.instancePath || "/"}: ${e.message ?? e.keyword}`);
+  if (errors.length > MAX_REPORTED_PROBLEMS) {
+    problems.push(`…and ${errors.length - MAX_REPORTED_PROBLEMS} more`);
+  }
+  throw new SchemaValidationError(fileName, PUBLISHED_SCHEMAS[fileName].schema, problems);
+}
+
+// Stamps the current schema_version, validates and writes a published file; an
+// invalid payload leaves the previous file in place
+export function writePublishedFile<K extends PublishedFileName>(
+  outputDir: string,
+  fileName: K,
+  payload: Omit<PublishedFiles[K], "schema_version">
+): void {
+  const document = { schema_version: PUBLISHED_SCHEMAS[fileName].version, ...payload };
+  validatePublished(fileName, document);
+  const filePath = path.join(outputDir, fileName);
+  const tmp = `${filePath}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(document, null, 2), "utf8");
+  fs.renameSync(tmp, filePath);
+}
@@ -1,62 +1,206 @@
 import fs from "node:fs";
 import path from "node:path";
-import { execSync } from "node:child_process";
+import { execFile, type ChildProcess } from "node:child_process";
+import { promisify } from "node:util";
 import crypto from "node:crypto";
 import { fileURLToPath } from 'node:url';
 import { dirname } from 'node:path';
+import { getConfig, type PipelineConfig } from "./config.js";
+import { getStore, type CrawlStatus, type PluginStore } from "./plugin-store.js";
+import { ChangeRecorder, matchRepositoryPlugins, publishChangelog } from "./changelog.js";
+import { SourceArchive } from "./source-archive.js";
+import { classifyPlugin } from "./plugin-classifier.js";
+import { describeSignatures, matchesSignature } from "./discovery.js";
+import { fileLinks } from "./permalinks.js";
+import { CrawlFailure, classifyGitError, isRetryDue, recordFailure } from "./crawl-failures.js";
+import { GitHubTokenPool } from "./github-token-pool.js";
+import { RequestScheduler } from "./request-scheduler.js";
+import { fetchRepositoryMetadata, toIndexedRepository, type RepoMetadata } from "./repository-metadata.js";
+import type { CrawledPlugin, CrawledPluginVersion, IndexedPlugin, PluginRelease, PluginRepository } from "./published-types.js";
 
-type OxidePluginData = {
-  generated_at: string;
-  query: string;
-  count: number;
-  items: {
-    plugin_name: string;
-    language: string;
-    file: {
-      path: string;
-      html_url: string;
-      raw_url: string;
-    };
-    repository: {
-      full_name: string;
-      name: string;
-      html_url: string;
-      description: string | null;
-      owner_login: string;
-      owner_url: string;
-      default_branch: string;
-      stargazers_count: number;
-      forks_count: number;
-      open_issues_count: number;
-    };
-  }[];
+// Published entry shapes, generated from schemas/
+type FoundPlugin = CrawledPlugin;
+
+type PluginMetadata = {
+  name: string | null;
+  author: string | null;
+  version: string | null;
+  resourceId: string | null;
+  description: string | null;
+  className: string | null;
+};
+
+// A class declaration with the attributes written directly above it
+type ClassDeclaration = {
+  name: string;
+  partial: boolean;
+  plugin: boolean; // has an [Info] attribute or a *Plugin base class
+  attributes: string;
+};
+
+type CrawlOptions = {
+  retryFailed?: boolean;
+};
+
+// Repositories a crawl session works through
+type CrawlSelection = {
+  queue: string[];
+  total: number; // repositories considered
+  alreadyProcessed: number;
+};
+
+type ClonedRepository = {
+  commitSha: string; // plugin file links are pinned to it
+  defaultBranch: string;
+  sourcePaths: string[]; // .cs files outside skipped directories
+};
+
+// A commit that changed a file, from `git log --raw`
+type FileRevision = {
+  commit: string;
+  date: string;
+  author: string;
+  blob: string; // the file at this commit
+};
+
+// A .cs file with a discovery signature
+type PluginSourceFile = {
+  path: string; // relative to the repository root, with forward slashes
+  content: string;
+  sha: string;
+  size: number;
+  classes: ClassDeclaration[];
 };
 
-type FoundPlugin = {
-  plugin_name: string;
-  plugin_author: string;
-  plugin_version: string | null;
-  plugin_description: string | null;
-  plugin_resource_id: string | null;
-  language: string;
-  file: {
-    path: string;
-    html_url: string;
-    raw_url: string;
+// Groups: 1 attributes, 2 modifiers, 3 class name, 4 base types
+const CLASS_DECLARATION_PATTERN = /((?:\[[^\]]*\]\s*)*)((?:(?:public|internal|private|protected|sealed|abstract|static|partial)\s+)*)\bclass\s+(\w+)(?:\s*:\s*([^{;]+))?\s*\{/g;
+
+const INFO_ATTRIBUTE_PATTERN = /\[\s*Info\s*\(/i;
+
+// Store key; a file may declare several plugin classes
+function crawledPluginKey(plugin: FoundPlugin): string {
+  const key = `${plugin.repository.full_name}#${plugin.file.path}`;
+  return plugin.plugin_class ? `${key}#${plugin.plugin_class}` : key;
+}
+
+// Previous versions kept in an entry's history; older ones stay in the source archive
+const MAX_HISTORY = 20;
+
+// SHA-256 over the path and blob SHA of each file; null for entries stored without SHAs
+function contentHash(plugin: FoundPlugin): string | null {
+  const files = plugin.files ?? [plugin.file];
+  if (files.some(f => !f.sha)) return null;
+  return crypto.createHash("sha256").update(files.map(f => `${f.path}\0${f.sha}`).join("\n")).digest("hex");
+}
+
+function toVersion(plugin: FoundPlugin, replacedAt: string): CrawledPluginVersion {
+  const hash = plugin.content_hash ?? contentHash(plugin);
+  return {
+    ...(hash ? { content_hash: hash } : {}),
+    plugin_version: plugin.plugin_version,
+    ...(plugin.file.sha ? { sha: plugin.file.sha } : {}),
+    ...(plugin.file.commit_sha ? { commit_sha: plugin.file.commit_sha } : {}),
+    ...(plugin.crawled_at ? { crawled_at: plugin.crawled_at } : {}),
+    replaced_at: replacedAt
   };
-  repository: {
-    full_name: string;
-    name: string;
-    html_url: string;
-    description: string | null;
-    owner_login: string;
-    owner_url: string;
-    default_branch: string;
-    stargazers_count: number;
-    forks_count: number;
-    open_issues_count: number;
+}
+
+// The directory of `roots` that is `dir` or its closest parent
+function closestRoot(dir: string, roots: string[]): string | null {
+  let closest: string | null = null;
+  for (const root of roots) {
+    const contains = root === "." || dir === root || dir.startsWith(`${root}/`);
+    if (contains && (closest === null || closest === "." || root.length > closest.length)) closest = root;
+  }
+  return closest;
+}
+
+// Order of the fragments of a partial plugin: the [Info] fragment is the main file
+function fragmentRank(declaration: ClassDeclaration): number {
+  if (INFO_ATTRIBUTE_PATTERN.test(declaration.attributes)) return 0;
+  return declaration.plugin ? 1 : 2;
+}
+
+const execFileAsync = promisify(execFile);
+
+// Status of a repository while a run crawls it; one left behind means the run was interrupted
+const IN_PROGRESS_MARKER = "Processing in progress...";
+
+// Git never waits for credentials (private or deleted repositories ask for them),
+// and checkout paths are taken literally
+const GIT_ENV = { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_LITERAL_PATHSPECS: "1" };
+
+// Git closes its input when it exits without reading it; the exit status reports why
+function writeInput(child: ChildProcess, input: string): void {
+  child.stdin?.on("error", () => {});
+  child.stdin?.end(input);
+}
+
+// Bytes of the files under `dir`, 0 while it does not exist
+function directorySize(dir: string): number {
+  let total = 0;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    try {
+      total += entry.isDirectory() ? directorySize(fullPath) : fs.lstatSync(fullPath).size;
+    } catch {
+      // Removed by git in the meantime (temporary pack files)
+    }
+  }
+  return total;
+}
+
+// Aborts once the files under `dir` grow past `maxBytes`, checked every second
+// until stopped and whenever `check` is called. Git writes packs as it receives
+// them, so this bounds what a clone or checkout downloads.
+function watchDirectorySize(dir: string, maxBytes: number): { signal: AbortSignal; check: () => void; stop: () => void } {
+  const controller = new AbortController();
+  const check = (): void => {
+    if (!controller.signal.aborted && directorySize(dir) > maxBytes) controller.abort();
   };
-};
+  const timer = setInterval(check, 1000);
+  timer.unref();
+  controller.signal.addEventListener("abort", () => clearInterval(timer));
+  return { signal: controller.signal, check, stop: () => clearInterval(timer) };
+}
+
+// Most recently active repositories first (latest commit to an indexed plugin
+// file), then the most starred
+function rankRepositories(repos: string[], indexedPlugins: Iterable<IndexedPlugin>): string[] {
+  const rank = new Map<string, { activity: string; stars: number }>();
+  for (const plugin of indexedPlugins) {
+    const entry = rank.get(plugin.repository.full_name) ?? { activity: "", stars: 0 };
+    const committedAt = plugin.commits?.latest.committed_at ?? "";
+    if (committedAt > entry.activity) entry.activity = committedAt;
+    entry.stars = Math.max(entry.stars, plugin.repository.stargazers_count);
+    rank.set(plugin.repository.full_name, entry);
+  }
+  const none = { activity: "", stars: 0 };
+  return [...repos].sort((a, b) => {
+    const ra = rank.get(a) ?? none;
+    const rb = rank.get(b) ?? none;
+    return rb.activity.localeCompare(ra.activity) || rb.stars - ra.stars;
+  });
+}
+
+// Runs `worker` over `items`, at most `concurrency` at a time; no new items are
+// started once `signal` is aborted
+async function runWorkers<T>(items: T[], concurrency: number, signal: AbortSignal, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  const run = async (): Promise<void> => {
+    while (next < items.length && !signal.aborted) {
+      const index = next++;
+      await worker(items[index]!, index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
+}
 
 type RepositoryCrawlResult = {
   repository: string;
@@ -64,24 +208,21 @@ type RepositoryCrawlResult = {
   plugins_found: FoundPlugin[];
   scanned_at: string;
   errors: string[];
+  commit_sha?: string; // HEAD of the clone
 };
 
+// Per-repository status lives in the store's crawl_status table; the rest is the
+// stage's run state
 type CrawlerState = {
   last_updated: string;
   total_repositories_processed: number;
   successful_crawls: number;
   failed_crawls: number;
-  processed_repositories: {
-    [repoName: string]: {
-      last_crawled: string;
-      plugins_count: number;
-      success: boolean;
-      errors: string[];
-    };
-  };
+  processed_repositories: Record<string, CrawlStatus>;
   latest_session_statistics?: CrawlStatistics;
 };
 
+
 type CrawlStatistics = {
   crawl_session: {
     started_at: string;
@@ -104,13 +245,30 @@ type CrawlStatistics = {
 class RepositoryCrawler {
   private tempDir: string;
   private outputDir: string;
-  private stateFile: string;
+  private outputFile: string;
+  private inputDir: string;
+  private store: PluginStore;
+  private archive: SourceArchive;
+  private settings: PipelineConfig["crawler"];
+  private signatures: string[];
   private state!: CrawlerState;
+  private changelog: ChangeRecorder | null = null; // changeset of the running crawl
+  private cancellation = new AbortController();
+  private apiUrl: string;
+  private metadataScheduler: RequestScheduler | null; // null without GitHub credentials
+  private repositories: Map<string, PluginRepository> | null = null; // built on first use
 
-  constructor() {
-    this.tempDir = path.join(process.cwd(), "temp_repos");
-    this.outputDir = path.join(process.cwd(), "output");
-    this.stateFile = path.join(this.outputDir, "crawler_state.json");
+  constructor(config: PipelineConfig = getConfig(), tokens?: GitHubTokenPool) {
+    this.tempDir = config.paths.tempDir;
+    this.outputDir = config.paths.outputDir;
+    this.inputDir = config.paths.inputDir;
+    this.settings = config.crawler;
+    this.signatures = config.discovery.signatures;
+    this.apiUrl = config.github.apiUrl;
+    this.metadataScheduler = tokens && tokens.size > 0 ? new RequestScheduler({ concurrency: config.crawler.concurrency, tokens }) : null;
+    this.outputFile = path.join(this.outputDir, "crawled_plugins.json");
+    this.store = getStore();
+    this.archive = new SourceArchive(this.store, this.outputDir, config.paths.archiveRoot);
     
     if (!fs.existsSync(this.tempDir)) {
       fs.mkdirSync(this.tempDir, { recursive: true });
@@ -124,16 +282,12 @@ class RepositoryCrawler {
   }
 
   private loadState(): void {
-    if (fs.existsSync(this.stateFile)) {
-      try {
-        this.state = JSON.parse(fs.readFileSync(this.stateFile, "utf-8"));
-        console.log(`Loaded state: ${Object.keys(this.state.processed_repositories).length} repositories already processed`);
-      } catch (error) {
-        console.warn("Failed to load state file, starting fresh:", error);
-        this.initializeState();
-      }
-    } else {
+    const runState = this.store.loadRunState<Omit<CrawlerState, "processed_repositories">>("crawl");
+    if (!runState) {
       this.initializeState();
+    } else {
+      this.state = { ...runState, processed_repositories: this.store.loadCrawlStatus() };
+      console.log(`Loaded state: ${Object.keys(this.state.processed_repositories).length} repositories already processed`);
     }
   }
 
@@ -149,7 +303,41 @@ class RepositoryCrawler {
 
   private saveState(): void {
     this.state.last_updated = new Date().toISOString();
-    fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    const { processed_repositories, ...runState } = this.state;
+    this.store.saveRunState("crawl", runState);
+  }
+
+  // Records a repository's status; `finished` attempts are also added to the crawl history
+  private setRepositoryStatus(repo: string, status: CrawlStatus, finished = true): void {
+    this.state.processed_repositories[repo] = status;
+    this.store.saveCrawlStatus(repo, status, finished);
+  }
+
+  private clearRepositoryStatus(repos: string[]): void {
+    for (const repo of repos) delete this.state.processed_repositories[repo];
+    this.store.deleteCrawlStatus(repos);
+  }
+
+  // Repositories left "in progress" by an interrupted run are crawled again
+  private recoverInterruptedRepositories(): void {
+    const interrupted = Object.entries(this.state.processed_repositories)
+      .filter(([, status]) => status.errors.length === 1 && status.errors[0] === IN_PROGRESS_MARKER)
+      .map(([repo]) => repo);
+    if (interrupted.length === 0) return;
+    this.clearRepositoryStatus(interrupted);
+    this.updateGlobalState(0, 0);
+    this.saveState();
+    console.log(`♻️ ${interrupted.length} repositories from an interrupted run will be crawled again`);
+  }
+
+  // Stops the running crawl: clones in progress are killed and no further
+  // repositories are started; results so far are kept
+  cancel(): void {
+    this.cancellation.abort();
+  }
+
+  get cancelled(): boolean {
+    return this.cancellation.signal.aborted;
   }
 
   private updateGlobalState(successful: number, failed: number): void {
@@ -158,20 +346,41 @@ class RepositoryCrawler {
     this.state.failed_crawls = Object.values(this.state.processed_repositories).filter(r => !r.success).length;
   }
 
-  private loadExistingOxideData(): { items: FoundPlugin[] } {
-    const outputPath = path.join(this.outputDir, "crawled_plugins.json");
-    if (fs.existsSync(outputPath)) {
-      try {
-        const existing = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
-        return {
-          items: existing.items || []
-        };
-      } catch (error) {
-        console.warn("Failed to load existing oxide data:", error);
-        return { items: [] };
-      }
+  // Regenerates crawled_plugins.json from the store, and source_archive.json when
+  // the crawl archived new sources
+  private exportResults(): void {
+    this.store.exportPlugins("crawl", this.outputDir, `Repository crawl - ${describeSignatures(this.signatures)} files found locally`);
+    if (this.archive.changed || !this.archive.indexExists()) this.archive.exportIndex();
+  }
+
+  // Classifies entries crawled before classification from their archived sources,
+  // so they get a framework and game without cloning their repositories again
+  private classifyStoredPlugins(): void {
+    const classified: [string, FoundPlugin][] = [];
+    for (const [key, plugin] of this.store.loadPlugins<FoundPlugin>("crawl")) {
+      if (plugin.framework || !plugin.file.sha) continue;
+      const source = this.archive.read(plugin.file.sha);
+      if (source) classified.push([key, { ...plugin, ...classifyPlugin(source.toString("utf-8")) }]);
     }
-    return { items: [] };
+    if (classified.length === 0) return;
+    this.store.upsertPlugins("crawl", classified);
+    this.exportResults();
+    console.log(`🏷️ Classified ${classified.length} previously crawled plugins from the source archive`);
+  }
+
+  // The first crawl has nothing to compare against and records no changeset
+  private startChangeset(): ChangeRecorder {
+    this.changelog = new ChangeRecorder(this.store, "crawl", this.store.countPlugins("crawl") > 0);
+    return this.changelog;
+  }
+
+  // Completes the crawl's changeset and republishes the changelog if it has changes
+  private finishChangeset(): void {
+    if (!this.changelog) return;
+    this.changelog.finish();
+    console.log(`📰 Changeset: ${this.changelog.summary()}`);
+    if (this.changelog.total > 0) publishChangelog(this.store, this.outputDir);
+    this.changelog = null;
   }
 
   private printFinalStatistics(statistics: CrawlStatistics, duration: number): void {
@@ -191,8 +400,8 @@ class RepositoryCrawler {
       console.log(`📊 Average plugins per successful repo: ${avgPluginsPerRepo}`);
     }
     
-    console.log(`\n📂 Results saved to: crawled_plugins.json`);
-    console.log(`📊 Statistics saved to: crawler_state.json`);
+    console.log(`\n📂 Results exported to: crawled_plugins.json`);
+    console.log(`📊 Statistics saved to: ${path.basename(this.store.filePath)}`);
     console.log("=".repeat(60));
   }
 
@@ -210,26 +419,11 @@ class RepositoryCrawler {
     }
   }
 
-  private saveIntermediateResults(currentResults: RepositoryCrawlResult[], sessionStarted: string): void {
+  // Plugins are stored per repository as it finishes; this records the session statistics
+  private saveIntermediateResults(currentResults: RepositoryCrawlResult[], sessionStarted: string, newPluginCount: number): void {
     try {
-      // Collect all plugins found so far
       const allFoundPlugins = currentResults.flatMap(r => r.plugins_found);
       
-      // Load existing oxide-format data
-      const outputPath = path.join(this.outputDir, "crawled_plugins.json");
-      const existingOxideData = this.loadExistingOxideData();
-      
-      // Combine with existing plugins (avoid duplicates by checking file path + repo)
-      const existingPluginKeys = new Set(
-        existingOxideData.items.map(p => `${p.repository.full_name}#${p.file.path}`)
-      );
-      
-      const newPlugins = allFoundPlugins.filter(p => 
-        !existingPluginKeys.has(`${p.repository.full_name}#${p.file.path}`)
-      );
-      
-      const allPlugins = [...existingOxideData.items, ...newPlugins];
-      
       // Create statistics and save to state instead
       const statistics: CrawlStatistics = {
         crawl_session: {
@@ -246,163 +440,95 @@ class RepositoryCrawler {
         },
         plugins: {
           total_found: allFoundPlugins.length,
-          new_plugins: newPlugins.length
+          new_plugins: newPluginCount
         }
       };
       
       // Update state with statistics
       this.state.latest_session_statistics = statistics;
-      
-      // Save in pure oxide_plugins.json format (no extra fields)
-      const oxideFormatData = {
-        generated_at: new Date().toISOString(),
-        query: "Repository crawl - namespace Oxide.Plugins files found locally",
-        count: allPlugins.length,
-        items: allPlugins
-      };
-      
-      fs.writeFileSync(outputPath, JSON.stringify(oxideFormatData, null, 2));
+      this.saveState();
     } catch (error) {
       console.warn(`Failed to save intermediate results: ${error}`);
     }
   }
 
-  async crawlRepositories(): Promise<void> {
+  // Crawls new repositories and the ones changed upstream, or with retryFailed
+  // only failed repositories whose retry is due
+  async crawlRepositories(options: CrawlOptions = {}): Promise<void> {
     const startTime = Date.now();
     const sessionStarted = new Date().toISOString();
     
-    console.log("Starting repository crawl...");
+    console.log(options.retryFailed ? "Retrying failed repositories..." : "Starting repository crawl...");
     console.log(`Session started at: ${sessionStarted}`);
-    
-    const oxidePluginsPath = path.join(this.outputDir, "oxide_plugins.json");
-    const manualReposPath = path.join(process.cwd(), "input", "manual-repositories.json");
-    
-    let uniqueRepositories: string[] = [];
-    
-    // Load repositories from oxide_plugins.json
-    if (fs.existsSync(oxidePluginsPath)) {
-      const oxideData: OxidePluginData = JSON.parse(
-        fs.readFileSync(oxidePluginsPath, "utf-8")
-      );
-      uniqueRepositories = this.extractUniqueRepositories(oxideData);
-      console.log(`Found ${uniqueRepositories.length} unique repositories in oxide_plugins.json`);
-    } else {
-      console.log("oxide_plugins.json not found, continuing without it");
-    }
-    
-    // Load manual repositories
-    if (fs.existsSync(manualReposPath)) {
-      try {
-        const manualRepos: string[] = JSON.parse(fs.readFileSync(manualReposPath, "utf-8"));
-        const manualRepoNames = manualRepos.map(url => {
-          const match = url.match(/github\.com\/([^\/]+\/[^\/]+)/);
-          return match ? match[1] : null;
-        }).filter(Boolean) as string[];
-        
-        uniqueRepositories = [...uniqueRepositories, ...manualRepoNames];
-        console.log(`Found ${manualRepoNames.length} manual repositories`);
-      } catch (error) {
-        console.warn("Failed to load manual repositories:", error);
-      }
-    }
-
-    // Load repositories discovered by author-repository-finder
-    const authorDiscoveredPath = path.join(this.outputDir, "author_discovered_repositories.json");
-    let authorFinderRepos: string[] = [];
-    if (fs.existsSync(authorDiscoveredPath)) {
-      try {
-        const authorDiscoveredData: { repositories: string[]; count: number } = JSON.parse(
-          fs.readFileSync(authorDiscoveredPath, "utf-8")
-        );
-        
-        authorFinderRepos = authorDiscoveredData.repositories;
-        const existingRepoSet = new Set(uniqueRepositories);
-        const newReposFromAuthorFinder = authorFinderRepos.filter(repo => !existingRepoSet.has(repo));
-        
-        uniqueRepositories = [...uniqueRepositories, ...authorFinderRepos];
-        
-        console.log(`📋 Author-repository-finder data:`);
-        console.log(`   Total repositories: ${authorFinderRepos.length}`);
-        console.log(`   New repositories: ${newReposFromAuthorFinder.length}`);
-        
-        if (newReposFromAuthorFinder.length > 0) {
-          console.log(`   🆕 New from author-finder: ${newReposFromAuthorFinder.slice(0, 5).join(', ')}${newReposFromAuthorFinder.length > 5 ? '...' : ''}`);
-        }
-        
-      } catch (error) {
-        console.warn("Failed to load author discovered repositories:", error);
-      }
-    } else {
-      console.log("📋 Author-repository-finder data: not found (author-finder hasn't run yet)");
-    }
-    
-    if (uniqueRepositories.length === 0) {
-      console.error("No repositories found in oxide_plugins.json or manual-repositories.json!");
-      return;
-    }
-    
-    // Remove duplicates
-    uniqueRepositories = [...new Set(uniqueRepositories)];
-    console.log(`Total unique repositories: ${uniqueRepositories.length}`);
+    this.classifyStoredPlugins();
+    this.recoverInterruptedRepositories();
 
-    // Filter out already processed repositories
-    const newRepositories = uniqueRepositories.filter(repo => !this.state.processed_repositories[repo]);
-    const alreadyProcessed = uniqueRepositories.length - newRepositories.length;
-    
-    console.log(`Already processed: ${alreadyProcessed} repositories`);
-    console.log(`New repositories to process: ${newRepositories.length}`);
+    const selection = options.retryFailed ? this.findRetryableRepositories() : await this.findRepositoriesToCrawl();
+    if (!selection) return;
+    const { queue, total, alreadyProcessed } = selection;
 
-    if (newRepositories.length === 0) {
-      console.log("All repositories have already been processed!");
+    if (queue.length === 0) {
+      console.log(options.retryFailed
+        ? "No failed repositories are due for a retry"
+        : "All repositories have already been processed and are up to date!");
+      if (!fs.existsSync(this.outputFile)) this.exportResults();
       return;
     }
+    await this.enrichRepositories(queue);
 
     const results: RepositoryCrawlResult[] = [];
+    const changelog = this.startChangeset();
+    const cancelSignal = this.cancellation.signal;
     let successful = 0;
     let failed = 0;
     let totalPluginsFound = 0;
+    let newPlugins = 0;
     
-    for (let i = 0; i < newRepositories.length; i++) {
-      const repo = newRepositories[i];
-      
-      if (!repo) {
-        console.error(`Repository at index ${i} is undefined`);
-        continue;
-      }
-      
-      const progress = `[${i + 1}/${newRepositories.length}]`;
-      console.log(`\n${progress} Processing: ${repo}`);
+    console.log(`Crawling with ${Math.min(this.settings.concurrency, queue.length)} workers`);
+    await runWorkers(queue, this.settings.concurrency, cancelSignal, async (repo, i) => {
+      const progress = `[${i + 1}/${queue.length}]`;
+      // Crawled before and changed upstream since, or failed before
+      const previousStatus = this.state.processed_repositories[repo];
+      const action = previousStatus ? (previousStatus.success ? "Re-crawling" : "Retrying") : "Processing";
+      console.log(`\n${progress} ${action}: ${repo}`);
       
       // Mark repository as "in progress" immediately to prevent re-processing
-      this.state.processed_repositories[repo] = {
+      this.setRepositoryStatus(repo, {
         last_crawled: new Date().toISOString(),
         plugins_count: 0,
         success: false,
-        errors: ["Processing in progress..."]
-      };
+        errors: [IN_PROGRESS_MARKER]
+      }, false);
       this.updateGlobalState(successful, failed);
       this.saveState();
       
       try {
-        const result = await this.crawlSingleRepository(repo);
+        const result = await this.crawlSingleRepository(repo, cancelSignal);
         results.push(result);
+        newPlugins += this.storeRepositoryResults(result, changelog);
         successful++;
         totalPluginsFound += result.plugins_found.length;
         
         // Update state
-        this.state.processed_repositories[repo] = {
-          last_crawled: result.scanned_at,
-          plugins_count: result.plugins_found.length,
-          success: true,
-          errors: result.errors
-        };
+        this.setRepositoryStatus(repo, this.successStatus(result));
         
-        console.log(`  ✅ Success! Found ${result.plugins_found.length} plugins`);
+        console.log(`  ✅ ${repo}: found ${result.plugins_found.length} plugins`);
         if (result.errors.length > 0) {
-          console.log(`  ⚠️  Warnings: ${result.errors.length}`);
+          console.log(`  ⚠️  ${repo}: ${result.errors.length} warnings`);
         }
       } catch (error) {
+        if (cancelSignal.aborted) {
+          // Not a failure of the repository; the next run crawls it again
+          if (previousStatus) {
+            this.setRepositoryStatus(repo, previousStatus, false);
+          } else {
+            this.clearRepositoryStatus([repo]);
+          }
+          console.log(`  ⏹️  ${repo}: cancelled`);
+          return;
+        }
         failed++;
+        const category = error instanceof CrawlFailure ? error.category : "unknown";
         const errorResult: RepositoryCrawlResult = {
           repository: repo,
           clone_url: `https://github.com/${repo}.git`,
@@ -413,30 +539,34 @@ class RepositoryCrawler {
         results.push(errorResult);
         
         // Update state
-        this.state.processed_repositories[repo] = {
+        this.setRepositoryStatus(repo, {
           last_crawled: errorResult.scanned_at,
           plugins_count: 0,
           success: false,
-          errors: errorResult.errors
-        };
+          errors: errorResult.errors,
+          failure: recordFailure(category, previousStatus?.failure, new Date(errorResult.scanned_at))
+        });
         
-        console.error(`  ❌ Failed: ${error}`);
+        console.error(`  ❌ ${repo} (${category}): ${error}`);
+      } finally {
+        this.cleanupRepository(repo);
       }
       
-      // Clean up after each repo and save both state and results
-      this.cleanupRepository(repo);
+      // Store the repository's results together with the state
       this.updateGlobalState(successful, failed);
-      this.saveState();
-      
-      // Save results after each repository to keep them synced with state
-      this.saveIntermediateResults(results.slice(0), sessionStarted);
+      this.saveIntermediateResults(results.slice(0), sessionStarted, newPlugins);
       
       // Progress update every 10 repos
-      if ((i + 1) % 10 === 0) {
-        console.log(`\n📊 Progress: ${i + 1}/${newRepositories.length} (${Math.round(((i + 1)/newRepositories.length)*100)}%)`);
+      const done = successful + failed;
+      if (done % 10 === 0) {
+        console.log(`\n📊 Progress: ${done}/${queue.length} (${Math.round((done / queue.length) * 100)}%)`);
         console.log(`   Success: ${successful}, Failed: ${failed}, Plugins found: ${totalPluginsFound}`);
         console.log(`   💾 Results and state synced (${results.length} repositories processed)`);
       }
+    });
+
+    if (cancelSignal.aborted) {
+      console.log(`\n⏹️  Crawl cancelled; ${queue.length - successful - failed} repositories are left for the next run`);
     }
 
     const endTime = Date.now();
@@ -451,127 +581,586 @@ class RepositoryCrawler {
         duration_ms: duration
       },
       repositories: {
-        total_found: uniqueRepositories.length,
+        total_found: total,
         already_processed: alreadyProcessed,
-        newly_processed: newRepositories.length,
+        newly_processed: successful + failed,
         successful: successful,
         failed: failed
       },
       plugins: {
         total_found: totalPluginsFound,
-        new_plugins: totalPluginsFound
+        new_plugins: newPlugins
       }
     };
 
-    // Final save is already handled by saveIntermediateResults
-    // Just update state with final statistics
+    // Results are already stored by saveIntermediateResults; record the final
+    // statistics and regenerate the export
     this.state.latest_session_statistics = statistics;
+    this.saveState();
+    this.exportResults();
+    this.finishChangeset();
 
     this.printFinalStatistics(statistics, duration);
   }
 
-  private extractUniqueRepositories(oxideData: OxidePluginData): string[] {
+  // Indexed, manual and author-discovered repositories that were never crawled or
+  // changed upstream since, ranked together; null when there are no repositories at all
+  private async findRepositoriesToCrawl(): Promise<CrawlSelection | null> {
+    const manualReposPath = path.join(this.inputDir, "manual-repositories.json");
+    
+    let uniqueRepositories: string[] = [];
+    
+    // Load repositories of indexed plugins
+    const indexedPlugins = this.store.loadPlugins<IndexedPlugin>("index");
+    if (indexedPlugins.size > 0) {
+      uniqueRepositories = this.extractUniqueRepositories(indexedPlugins.values());
+      console.log(`Found ${uniqueRepositories.length} unique repositories among indexed plugins`);
+    } else {
+      console.log("No indexed plugins yet, continuing without them");
+    }
+    
+    // Load manual repositories
+    if (fs.existsSync(manualReposPath)) {
+      try {
+        const manualRepos: string[] = JSON.parse(fs.readFileSync(manualReposPath, "utf-8"));
+        const manualRepoNames = manualRepos.map(url => {
+          const match = url.match(/github\.com\/([^\/]+\/[^\/]+)/);
+          return match ? match[1] : null;
+        }).filter(Boolean) as string[];
+        
+        uniqueRepositories = [...uniqueRepositories, ...manualRepoNames];
+        console.log(`Found ${manualRepoNames.length} manual repositories`);
+      } catch (error) {
+        console.warn("Failed to load manual repositories:", error);
+      }
+    }
+
+    // Load repositories discovered by author-repository-finder
+    const authorFinderRepos = this.store.loadDiscoveredRepositories();
+    if (authorFinderRepos.length > 0) {
+      const existingRepoSet = new Set(uniqueRepositories);
+      const newReposFromAuthorFinder = authorFinderRepos.filter(repo => !existingRepoSet.has(repo));
+      
+      uniqueRepositories = [...uniqueRepositories, ...authorFinderRepos];
+      
+      console.log(`📋 Author-repository-finder data:`);
+      console.log(`   Total repositories: ${authorFinderRepos.length}`);
+      console.log(`   New repositories: ${newReposFromAuthorFinder.length}`);
+      
+      if (newReposFromAuthorFinder.length > 0) {
+        console.log(`   🆕 New from author-finder: ${newReposFromAuthorFinder.slice(0, 5).join(', ')}${newReposFromAuthorFinder.length > 5 ? '...' : ''}`);
+      }
+    } else {
+      console.log("📋 Author-repository-finder data: not found (author-finder hasn't run yet)");
+    }
+    
+    if (uniqueRepositories.length === 0) {
+      console.error("No repositories found among indexed plugins or in manual-repositories.json!");
+      return null;
+    }
+    
+    // Remove duplicates
+    uniqueRepositories = [...new Set(uniqueRepositories)];
+    console.log(`Total unique repositories: ${uniqueRepositories.length}`);
+
+    // Filter out already processed repositories
+    const newRepositories = uniqueRepositories.filter(repo => !this.state.processed_repositories[repo]);
+    const alreadyProcessed = uniqueRepositories.length - newRepositories.length;
+    
+    console.log(`Already processed: ${alreadyProcessed} repositories`);
+    console.log(`New repositories to process: ${newRepositories.length}`);
+
+    const changedRepositories = await this.findChangedRepositories(uniqueRepositories, indexedPlugins.values());
+    const queue = rankRepositories([...newRepositories, ...changedRepositories], indexedPlugins.values());
+    return { queue, total: uniqueRepositories.length, alreadyProcessed };
+  }
+
+  // Failed repositories whose retry is due
+  private findRetryableRepositories(): CrawlSelection {
+    const now = Date.now();
+    const failed = Object.entries(this.state.processed_repositories).filter(([, status]) => !status.success);
+    const queue = failed
+      .filter(([, { failure }]) => isRetryDue(failure, now))
+      .map(([repo]) => repo);
+    const exhausted = failed.filter(([, { failure }]) => failure?.next_retry_at === null).length;
+    console.log(`Failed repositories: ${failed.length} (${queue.length} due for a retry, ${exhausted} out of retries)`);
+    return { queue, total: failed.length, alreadyProcessed: failed.length - queue.length };
+  }
+
+  // Crawls one repository again, replacing its previous results
+  async recrawlRepository(repoFullName: string): Promise<RepositoryCrawlResult> {
+    console.log(`Re-crawling ${repoFullName}...`);
+    
+    try {
+      await this.enrichRepositories([repoFullName]);
+      const result = await this.crawlSingleRepository(repoFullName, this.cancellation.signal);
+      this.setRepositoryStatus(repoFullName, this.successStatus(result));
+      this.storeRepositoryResults(result, this.startChangeset());
+      this.exportResults();
+      this.finishChangeset();
+      console.log(`  ✅ Success! Found ${result.plugins_found.length} plugins`);
+      return result;
+    } catch (error) {
+      // A cancelled recrawl keeps the previous status
+      if (!this.cancelled) {
+        const failedAt = new Date();
+        const category = error instanceof CrawlFailure ? error.category : "unknown";
+        this.setRepositoryStatus(repoFullName, {
+          last_crawled: failedAt.toISOString(),
+          plugins_count: 0,
+          success: false,
+          errors: [`Failed to crawl: ${error}`],
+          failure: recordFailure(category, this.state.processed_repositories[repoFullName]?.failure, failedAt)
+        });
+      }
+      throw error;
+    } finally {
+      this.cleanupRepository(repoFullName);
+      this.updateGlobalState(0, 0);
+      this.saveState();
+    }
+  }
+
+  private successStatus(result: RepositoryCrawlResult): CrawlStatus {
+    return {
+      last_crawled: result.scanned_at,
+      plugins_count: result.plugins_found.length,
+      success: true,
+      errors: result.errors,
+      ...(result.commit_sha ? { commit_sha: result.commit_sha } : {})
+    };
+  }
+
+  // Updates the stored plugins of a repository in place from a crawl of it.
+  // Entries whose content hash changed take the new version and keep the previous
+  // one in their history; entries the crawl no longer found are flagged with
+  // removed_at, and cleared again when they come back. Returns how many entries
+  // were added.
+  private storeRepositoryResults(result: RepositoryCrawlResult, changelog: ChangeRecorder): number {
+    const stored = this.store.loadRepositoryPlugins<FoundPlugin>("crawl", result.repository);
+    const live = stored.filter(p => !p.removed_at);
+    const removedByKey = new Map(stored.filter(p => p.removed_at).map(p => [crawledPluginKey(p), p]));
+    const entries = new Map<string, FoundPlugin>();
+    const crawledAt = result.scanned_at;
+    let added = 0;
+
+    const { pairs, unmatched } = matchRepositoryPlugins(live, result.plugins_found);
+    for (const { plugin, previous } of pairs) {
+      const key = crawledPluginKey(plugin);
+      const hash = contentHash(plugin);
+      const before = previous ?? removedByKey.get(key);
+      removedByKey.delete(key);
+      const beforeHash = before ? before.content_hash ?? contentHash(before) : null;
+      if (previous && beforeHash === hash) {
+        // Unchanged; entries stored without a hash or class get them, and the
+        // repository metadata is refreshed. Branch links follow a renamed default branch.
+        const { plugin_class, releases, repository, file, files } = plugin;
+        const branchMoved = previous.repository.default_branch !== repository.default_branch;
+        entries.set(key, {
+          ...previous,
+          ...(plugin_class ? { plugin_class } : {}),
+          ...(hash ? { content_hash: hash } : {}),
+          ...(releases ? { releases } : {}),
+          ...(branchMoved ? { file, ...(files ? { files } : {}) } : {}),
+          repository
+        });
+        continue;
+      }
+      const history = before && beforeHash !== hash ? [toVersion(before, crawledAt), ...(before.history ?? [])] : before?.history ?? [];
+      entries.set(key, {
+        ...plugin,
+        // Crawls without crawler.versionHistory keep the last timeline
+        ...(!plugin.releases && before?.releases ? { releases: before.releases } : {}),
+        ...(hash ? { content_hash: hash } : {}),
+        crawled_at: beforeHash === hash ? before?.crawled_at ?? crawledAt : crawledAt,
+        ...(history.length > 0 ? { history: history.slice(0, MAX_HISTORY) } : {})
+      });
+      if (previous) {
+        changelog.record("updated", plugin, previous);
+      } else {
+        // New, or found again after it was flagged as removed
+        changelog.record("added", plugin);
+        added++;
+      }
+    }
+    for (const plugin of unmatched) {
+      const flagged: FoundPlugin = { ...plugin, removed_at: crawledAt, removed_reason: "file_deleted" };
+      entries.set(crawledPluginKey(plugin), flagged);
+      changelog.record("removed", flagged);
+    }
+    for (const [key, plugin] of removedByKey) entries.set(key, plugin);
+
+    this.store.transaction(() => {
+      this.store.replaceRepositoryPlugins("crawl", result.repository, Array.from(entries));
+      changelog.flush();
+    });
+    return added;
+  }
+
+  // Successfully crawled repositories not crawled or checked for crawler.recrawlAfterHours are
+  // due for an upstream check; up to crawler.recrawlBatchSize of them, most active
+  // and popular first, are compared against their remote HEAD with `git ls-remote`.
+  // Returns the ones whose default branch moved since they were crawled. Crawls
+  // recorded without a commit take the remote HEAD as theirs instead of counting
+  // as changed.
+  private async findChangedRepositories(repositories: string[], indexedPlugins: Iterable<IndexedPlugin>): Promise<string[]> {
+    if (this.settings.recrawlAfterHours === 0) return [];
+    const dueBefore = Date.now() - this.settings.recrawlAfterHours * 60 * 60 * 1000;
+    const due = repositories.filter(repo => {
+      // Failed repositories are retried by crawlRepositories({ retryFailed: true })
+      const status = this.state.processed_repositories[repo];
+      if (!status?.success) return false;
+      const lastVisit = Math.max(Date.parse(status.last_crawled), status.checked_at ? Date.parse(status.checked_at) : 0);
+      return lastVisit < dueBefore;
+    });
+    if (due.length === 0) return [];
+
+    const candidates = rankRepositories(due, indexedPlugins).slice(0, this.settings.recrawlBatchSize);
+    console.log(`Checking ${candidates.length} of ${due.length} repositories due for a re-crawl for new commits...`);
+    const signal = this.cancellation.signal;
+    const changed = new Set<string>();
+    const checked: string[] = [];
+    const seeded = new Map<string, string>();
+    let unreachable = 0;
+    await runWorkers(candidates, this.settings.concurrency, signal, async (repo) => {
+      try {
+        const head = await this.remoteHead(repo, signal);
+        const crawled = this.crawledCommit(repo);
+        if (!crawled) {
+          seeded.set(repo, head);
+        } else if (head !== crawled) {
+          changed.add(repo);
+          return;
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        // Deleted or private now; checked again after the next interval
+        unreachable++;
+        console.warn(`  ⚠️  ${repo}: upstream check failed: ${error}`);
+      }
+      checked.push(repo);
+    });
+
+    const checkedAt = new Date().toISOString();
+    this.store.markCrawlChecked(checked, checkedAt);
+    for (const repo of checked) this.state.processed_repositories[repo]!.checked_at = checkedAt;
+    for (const [repo, head] of seeded) {
+      this.setRepositoryStatus(repo, { ...this.state.processed_repositories[repo]!, commit_sha: head }, false);
+    }
+    console.log(`Upstream check: ${changed.size} changed, ${checked.length - unreachable - seeded.size} unchanged, ` +
+      `${seeded.size} without a recorded commit (current one recorded), ${unreachable} unreachable`);
+    // Keep the ranking order
+    return candidates.filter(repo => changed.has(repo));
+  }
+
+  private async remoteHead(repoFullName: string, cancelSignal: AbortSignal): Promise<string> {
+    const signal = AbortSignal.any([cancelSignal, AbortSignal.timeout(this.settings.repositoryTimeoutMs)]);
+    const output = await this.git(["ls-remote", `https://github.com/${repoFullName}.git`, "HEAD"], signal);
+    const head = output.match(/^([0-9a-f]{40})\tHEAD$/m)?.[1];
+    if (!head) throw new Error("no HEAD in ls-remote output");
+    return head;
+  }
+
+  // Commit a repository was last crawled at; crawls recorded without one fall
+  // back to the commit their plugin links are pinned to
+  private crawledCommit(repoFullName: string): string | null {
+    const status = this.state.processed_repositories[repoFullName];
+    if (status?.commit_sha) return status.commit_sha;
+    if (!status?.success) return null;
+    const [plugin] = this.store.loadRepositoryPlugins<FoundPlugin>("crawl", repoFullName);
+    return plugin?.file.commit_sha ?? null;
+  }
+
+  private extractUniqueRepositories(items: Iterable<IndexedPlugin>): string[] {
     const repositorySet = new Set<string>();
     
-    oxideData.items.forEach(item => {
+    for (const item of items) {
+      // Tombstoned entries point at files or repositories that no longer exist
+      if (item.removed_at) continue;
       repositorySet.add(item.repository.full_name);
-    });
+    }
 
     return Array.from(repositorySet);
   }
 
-  private getRepositoryInfo(repoFullName: string): any {
-    try {
-      const oxidePluginsPath = path.join(this.outputDir, "oxide_plugins.json");
-      const oxideData: OxidePluginData = JSON.parse(fs.readFileSync(oxidePluginsPath, "utf-8"));
-      
-      const repoItem = oxideData.items.find(item => item.repository.full_name === repoFullName);
-      if (repoItem) {
-        return repoItem.repository;
-      }
-      
-      // Fallback if not found
-      const [owner, name] = repoFullName.split('/');
-      return {
-        full_name: repoFullName,
-        name: name,
-        html_url: `https://github.com/${repoFullName}`,
-        description: null,
-        owner_login: owner,
-        owner_url: `https://github.com/${owner}`,
-        default_branch: "main",
-        stargazers_count: 0,
-        forks_count: 0,
-        open_issues_count: 0
-      };
-    } catch (error) {
-      // Fallback repository info
-      const [owner, name] = repoFullName.split('/');
-      return {
-        full_name: repoFullName,
-        name: name,
-        html_url: `https://github.com/${repoFullName}`,
-        description: null,
-        owner_login: owner,
-        owner_url: `https://github.com/${owner}`,
-        default_branch: "main",
-        stargazers_count: 0,
-        forks_count: 0,
-        open_issues_count: 0
-      };
+  // Metadata of every known repository: the repository cache the indexer and
+  // enrichRepositories fill, then the repositories of indexed plugins
+  private repositoryLookup(): Map<string, PluginRepository> {
+    if (this.repositories) return this.repositories;
+    const repositories = new Map<string, PluginRepository>();
+    for (const [fullName, metadata] of Object.entries(this.store.loadRepositories<RepoMetadata>())) {
+      repositories.set(fullName, toIndexedRepository(metadata));
+    }
+    for (const plugin of this.store.loadPlugins<IndexedPlugin>("index").values()) {
+      if (!repositories.has(plugin.repository.full_name)) repositories.set(plugin.repository.full_name, plugin.repository);
+    }
+    this.repositories = repositories;
+    return repositories;
+  }
+
+  // Fetches the metadata of repositories nothing is known about yet, e.g. manual
+  // and author-discovered ones, from the GitHub API and caches it
+  private async enrichRepositories(repos: string[]): Promise<void> {
+    const lookup = this.repositoryLookup();
+    const missing = repos.filter(repo => !lookup.has(repo));
+    if (missing.length === 0) return;
+    const scheduler = this.metadataScheduler;
+    if (!scheduler) {
+      console.log(`No GitHub credentials: ${missing.length} repositories without metadata get only what their clones show`);
+      return;
     }
+
+    console.log(`Fetching metadata of ${missing.length} repositories...`);
+    let fetched = 0;
+    await runWorkers(missing, this.settings.concurrency, this.cancellation.signal, async (repo) => {
+      try {
+        // Deleted or private; the crawl records why
+        const metadata = await fetchRepositoryMetadata(scheduler, this.apiUrl, repo);
+        if (!metadata) return;
+        this.store.upsertRepository(metadata.full_name, metadata, metadata.fetched_at);
+        // Renamed repositories keep the name they are crawled under
+        lookup.set(repo, { ...toIndexedRepository(metadata), full_name: repo });
+        fetched++;
+      } catch (error) {
+        console.warn(`  ⚠️  ${repo}: metadata not fetched: ${error}`);
+      }
+    });
+    console.log(`Fetched metadata of ${fetched} of ${missing.length} repositories`);
+  }
+
+  // The clone knows the current default branch; repositories without metadata
+  // get zero counts
+  private getRepositoryInfo(repoFullName: string, defaultBranch: string): PluginRepository {
+    const known = this.repositoryLookup().get(repoFullName);
+    if (known) return { ...known, default_branch: defaultBranch };
+    const [owner = "", name = ""] = repoFullName.split("/");
+    return {
+      full_name: repoFullName,
+      name,
+      html_url: `https://github.com/${repoFullName}`,
+      description: null,
+      owner_login: owner,
+      owner_url: `https://github.com/${owner}`,
+      default_branch: defaultBranch,
+      stargazers_count: 0,
+      forks_count: 0,
+      open_issues_count: 0
+    };
   }
 
-  private async crawlSingleRepository(repoFullName: string): Promise<RepositoryCrawlResult> {
+  // Clones a repository and scans its plugin sources. Cloning and checking out
+  // share the crawler.repositoryTimeoutMs deadline and the crawler.maxCloneSizeMb
+  // limit, and the clone is killed when the crawl is cancelled.
+  private async crawlSingleRepository(repoFullName: string, cancelSignal: AbortSignal): Promise<RepositoryCrawlResult> {
     const cloneUrl = `https://github.com/${repoFullName}.git`;
     const repoDir = path.join(this.tempDir, repoFullName.replace("/", "_"));
     const errors: string[] = [];
+    const timeoutMs = this.settings.repositoryTimeoutMs;
+    const maxCloneSizeMb = this.settings.maxCloneSizeMb;
+    const sizeWatch = watchDirectorySize(repoDir, maxCloneSizeMb * 1024 * 1024);
+    const signal = AbortSignal.any([cancelSignal, AbortSignal.timeout(timeoutMs), sizeWatch.signal]);
+    const stopReason = (): string => sizeWatch.signal.aborted
+      ? `the clone grew past crawler.maxCloneSizeMb (${maxCloneSizeMb} MB)`
+      : `timed out after ${Math.round(timeoutMs / 1000)}s`;
+    const gitFailure = (step: string, error: unknown): Error => {
+      if (cancelSignal.aborted) return new Error("Crawl cancelled");
+      if (sizeWatch.signal.aborted) return new CrawlFailure("too_large", `Skipped while ${step}: ${stopReason()}`);
+      if (signal.aborted) return new CrawlFailure("clone_timeout", `Timed out after ${Math.round(timeoutMs / 1000)}s while ${step}`);
+      return new CrawlFailure(classifyGitError(String(error)), `Failed ${step}: ${error}`);
+    };
 
     try {
-      // Clone repository
-      console.log(`  Cloning ${repoFullName}...`);
-      execSync(`git clone --depth 1 "${cloneUrl}" "${repoDir}"`, {
-        stdio: "pipe"
-      });
-    } catch (error) {
-      throw new Error(`Failed to clone repository: ${error}`);
+      let clone: ClonedRepository;
+      try {
+        console.log(`  Cloning ${repoFullName}...`);
+        clone = await this.cloneRepository(cloneUrl, repoDir, signal);
+        // A step can finish between two size checks
+        sizeWatch.check();
+        signal.throwIfAborted();
+      } catch (error) {
+        throw gitFailure("cloning the repository", error);
+      }
+
+      if (clone.sourcePaths.length > this.settings.maxSourceFiles) {
+        throw new CrawlFailure("too_large", `Skipped: ${clone.sourcePaths.length} .cs files, more than crawler.maxSourceFiles (${this.settings.maxSourceFiles})`);
+      }
+      try {
+        await this.checkoutSources(repoDir, clone.sourcePaths, signal);
+        sizeWatch.check();
+        signal.throwIfAborted();
+      } catch (error) {
+        throw gitFailure("checking out the sources", error);
+      }
+
+      const repoInfo = this.getRepositoryInfo(repoFullName, clone.defaultBranch);
+
+      // Find all .cs files with a discovery signature
+      let plugins: FoundPlugin[];
+      try {
+        plugins = this.findOxidePlugins(repoDir, repoFullName, repoInfo, clone.commitSha, errors);
+      } catch (error) {
+        throw new CrawlFailure("parse_error", `Failed to analyze the sources: ${error}`);
+      }
+
+      // The timelines are extra; a repository whose history cannot be read keeps its plugins
+      if (this.settings.versionHistory && plugins.length > 0) {
+        try {
+          await this.addReleaseTimelines(repoDir, plugins, signal);
+        } catch (error) {
+          if (cancelSignal.aborted) throw new Error("Crawl cancelled");
+          errors.push(`Version history skipped: ${signal.aborted ? stopReason() : error}`);
+        }
+      }
+
+      return {
+        repository: repoFullName,
+        clone_url: cloneUrl,
+        plugins_found: plugins,
+        scanned_at: new Date().toISOString(),
+        errors,
+        commit_sha: clone.commitSha
+      };
+    } finally {
+      sizeWatch.stop();
     }
+  }
 
-    // Get repository info from original oxide_plugins.json
-    const repoInfo = this.getRepositoryInfo(repoFullName);
+  private async git(args: string[], signal: AbortSignal, cwd?: string, input = ""): Promise<string> {
+    const pending = execFileAsync("git", args, { cwd, signal, env: GIT_ENV, encoding: "utf8", maxBuffer: 64 * 1024 * 1024 });
+    writeInput(pending.child, input);
+    return (await pending).stdout;
+  }
 
-    // Find all .cs files with Oxide.Plugins namespace
-    const plugins = this.findOxidePlugins(repoDir, repoFullName, repoInfo, errors);
+  // Shallow clone without file contents: only commits and trees are downloaded
+  // (all of them with crawler.versionHistory).
+  private async cloneRepository(cloneUrl: string, repoDir: string, signal: AbortSignal): Promise<ClonedRepository> {
+    const depth = this.settings.versionHistory ? [] : ["--depth", "1"];
+    await this.git(["clone", ...depth, "--filter=blob:none", "--no-checkout", "--quiet", cloneUrl, repoDir], signal);
+    const commitSha = (await this.git(["rev-parse", "HEAD"], signal, repoDir)).trim();
+    // A clone checks out the remote's default branch
+    const defaultBranch = (await this.git(["symbolic-ref", "--short", "HEAD"], signal, repoDir)).trim();
+    // "<mode> <type> <object>\t<path>" entries; listing them downloads no blobs
+    const listing = await this.git(["ls-tree", "-r", "-z", "HEAD"], signal, repoDir);
+    const sourcePaths = listing.split("\0").flatMap(entry => {
+      const [meta, filePath] = entry.split("\t");
+      return filePath && meta?.split(" ")[1] === "blob" && this.isSourcePath(filePath) ? [filePath] : [];
+    });
+    return { commitSha, defaultBranch, sourcePaths };
+  }
 
-    return {
-      repository: repoFullName,
-      clone_url: cloneUrl,
-      plugins_found: plugins,
-      scanned_at: new Date().toISOString(),
-      errors
-    };
+  // Downloads and checks out only the given files
+  private async checkoutSources(repoDir: string, sourcePaths: string[], signal: AbortSignal): Promise<void> {
+    if (sourcePaths.length === 0) return;
+    await this.git(["checkout", "--quiet", "HEAD", "--pathspec-from-file=-", "--pathspec-file-nul"], signal, repoDir, sourcePaths.join("\0"));
   }
 
-  private findOxidePlugins(repoDir: string, repoFullName: string, repoInfo: any, errors: string[]): FoundPlugin[] {
-    const plugins: FoundPlugin[] = [];
+  // Sets the releases of each plugin from the git log of its main file: every
+  // commit after which the [Info] version differs from the version before it
+  private async addReleaseTimelines(repoDir: string, plugins: FoundPlugin[], signal: AbortSignal): Promise<void> {
+    const maxCommits = this.settings.versionHistoryMaxCommits;
+    const revisionsByPath = new Map<string, FileRevision[]>();
+    for (const filePath of new Set(plugins.map(p => p.file.path))) {
+      revisionsByPath.set(filePath, await this.fileRevisions(repoDir, filePath, maxCommits, signal));
+    }
+    // The partial clone has no old blobs; fetch them in one request instead of one by one
+    const blobs = [...new Set([...revisionsByPath.values()].flat().map(r => r.blob))];
+    if (blobs.length === 0) return;
+    await this.git(
+      ["-c", "fetch.negotiationAlgorithm=noop", "fetch", "--quiet", "--no-tags", "--no-write-fetch-head", "--recurse-submodules=no", "--filter=blob:none", "--stdin", "origin"],
+      signal, repoDir, blobs.join("\n")
+    );
+
+    for (const [filePath, revisions] of revisionsByPath) {
+      const contents = await this.readBlobs(repoDir, [...new Set(revisions.map(r => r.blob))], signal);
+      for (const plugin of plugins.filter(p => p.file.path === filePath)) {
+        const releases: PluginRelease[] = [];
+        let previous: string | null = null;
+        for (const revision of [...revisions].reverse()) {
+          const content = contents.get(revision.blob);
+          const version = content === undefined ? null : this.releaseVersion(content, plugin.plugin_class);
+          if (!version || version === previous) continue;
+          releases.push({ version, released_at: revision.date, commit_sha: revision.commit, author: revision.author });
+          previous = version;
+        }
+        // A truncated log starts in the middle of the oldest version it shows
+        if (revisions.length >= maxCommits) releases.shift();
+        if (releases.length > 0) plugin.releases = releases.reverse();
+      }
+    }
+  }
+
+  // Commits that changed a file, newest first; renames are not followed since
+  // detecting them would download the blobs
+  private async fileRevisions(repoDir: string, filePath: string, maxCommits: number, signal: AbortSignal): Promise<FileRevision[]> {
+    const output = await this.git(
+      ["log", `--max-count=${maxCommits}`, "--no-renames", "--raw", "--no-abbrev", "--format=%H%x09%cI%x09%an", "HEAD", "--", filePath],
+      signal, repoDir
+    );
+    const revisions: FileRevision[] = [];
+    let commit: Omit<FileRevision, "blob"> | null = null;
+    for (const line of output.split("\n")) {
+      if (line.startsWith(":")) {
+        // ":<old mode> <new mode> <old blob> <new blob> <status>\t<path>"; deletions have a zero blob
+        const blob = line.split("\t")[0]!.split(" ")[3];
+        if (commit && blob && !/^0+$/.test(blob)) revisions.push({ ...commit, blob });
+        commit = null;
+      } else if (line) {
+        const [sha, date, author] = line.split("\t");
+        commit = sha && date ? { commit: sha, date: new Date(date).toISOString(), author: author ?? "" } : null;
+      }
+    }
+    return revisions;
+  }
+
+  private async readBlobs(repoDir: string, blobs: string[], signal: AbortSignal): Promise<Map<string, string>> {
+    const pending = execFileAsync("git", ["cat-file", "--batch"], { cwd: repoDir, signal, env: GIT_ENV, encoding: "buffer", maxBuffer: 256 * 1024 * 1024 });
+    writeInput(pending.child, blobs.join("\n") + "\n");
+    const { stdout } = await pending;
+    // "<blob> blob <size>\n<content>\n" per object, "<blob> missing\n" for unknown ones
+    const contents = new Map<string, string>();
+    let offset = 0;
+    while (offset < stdout.length) {
+      const headerEnd = stdout.indexOf(10, offset);
+      if (headerEnd < 0) break;
+      const [blob, type, size] = stdout.subarray(offset, headerEnd).toString("utf8").split(" ");
+      offset = headerEnd + 1;
+      if (type === "missing" || !blob || !size) continue;
+      contents.set(blob, stdout.subarray(offset, offset + Number(size)).toString("utf8"));
+      offset += Number(size) + 1;
+    }
+    return contents;
+  }
+
+  // Version of a plugin in one revision of its main file, read the way
+  // assemblePlugins reads it
+  private releaseVersion(content: string, className: string | undefined): string | null {
+    const pluginClasses = this.parseClassDeclarations(content).filter(c => c.plugin && !c.partial);
+    if (pluginClasses.length <= 1) return this.parsePluginMetadata(content).version;
+    const declaration = pluginClasses.find(c => c.name === className);
+    return declaration ? this.parsePluginMetadata(declaration.attributes).version : null;
+  }
+
+  private isSourcePath(filePath: string): boolean {
+    return filePath.endsWith(".cs") && !filePath.split("/").slice(0, -1).some(dir => this.shouldSkipDirectory(dir));
+  }
+
+  // Reads the plugin sources of a repository and assembles plugins from their
+  // class declarations
+  private findOxidePlugins(repoDir: string, repoFullName: string, repoInfo: PluginRepository, commitSha: string | null, errors: string[]): FoundPlugin[] {
+    const sources: PluginSourceFile[] = [];
     
-    try {
-      this.scanDirectory(repoDir, repoDir, repoFullName, repoInfo, plugins, errors);
-    } catch (error) {
-      errors.push(`Error scanning directory: ${error}`);
+    // Unreadable files are listed in the errors, unless nothing could be read at all
+    const unreadable = this.scanDirectory(repoDir, repoDir, sources, errors);
+    if (unreadable > 0 && sources.length === 0) {
+      throw new Error(`no plugin source could be read, ${unreadable} files or directories failed: ${errors.at(-1)}`);
     }
 
-    return plugins;
+    return this.assemblePlugins(sources, repoFullName, repoInfo, commitSha);
   }
 
-  private scanDirectory(
-    currentDir: string,
-    repoRoot: string,
-    repoFullName: string,
-    repoInfo: any,
-    plugins: FoundPlugin[],
-    errors: string[]
-  ): void {
+  // Returns the number of files and directories that could not be read
+  private scanDirectory(currentDir: string, repoRoot: string, sources: PluginSourceFile[], errors: string[]): number {
+    let unreadable = 0;
     try {
       const items = fs.readdirSync(currentDir, { withFileTypes: true });
 
@@ -585,40 +1174,95 @@ class RepositoryCrawler {
           }
           
           // Recursively scan subdirectories
-          this.scanDirectory(fullPath, repoRoot, repoFullName, repoInfo, plugins, errors);
+          unreadable += this.scanDirectory(fullPath, repoRoot, sources, errors);
         } else if (item.isFile() && item.name.endsWith(".cs")) {
           // Scan C# files
           try {
-            const plugin = this.analyzeCSFile(fullPath, repoRoot, repoFullName, repoInfo);
-            if (plugin) {
-              plugins.push(plugin);
+            if (fs.statSync(fullPath).size > this.settings.maxFileSizeKb * 1024) {
+              errors.push(`Skipped ${path.relative(repoRoot, fullPath)}: larger than crawler.maxFileSizeKb (${this.settings.maxFileSizeKb} KB)`);
+              continue;
+            }
+            const source = this.analyzeCSFile(fullPath, repoRoot);
+            if (source) {
+              sources.push(source);
             }
           } catch (error) {
             errors.push(`Error analyzing ${fullPath}: ${error}`);
+            unreadable++;
           }
         }
       }
     } catch (error) {
       errors.push(`Error reading directory ${currentDir}: ${error}`);
+      unreadable++;
+    }
+    return unreadable;
+  }
+
+  // Every plugin class of a file is an entry of its own, and the partial-class
+  // fragments of a plugin are merged into one entry listing all its files.
+  // Fragments belong to the plugin declared in their directory or the closest
+  // parent directory.
+  private assemblePlugins(sources: PluginSourceFile[], repoFullName: string, repoInfo: PluginRepository, commitSha: string | null): FoundPlugin[] {
+    const plugins: FoundPlugin[] = [];
+    const usedFiles = new Set<string>();
+
+    for (const source of sources) {
+      const pluginClasses = source.classes.filter(c => c.plugin && !c.partial);
+      for (const declaration of pluginClasses) {
+        // A file's only plugin may keep its metadata anywhere, e.g. in a header comment
+        const metadata = this.parsePluginMetadata(pluginClasses.length === 1 ? source.content : declaration.attributes);
+        plugins.push(this.toFoundPlugin(repoFullName, repoInfo, commitSha, declaration.name, metadata, source, [source]));
+        usedFiles.add(source.path);
+      }
     }
+
+    const fragmentsByClass = new Map<string, { source: PluginSourceFile; declaration: ClassDeclaration }[]>();
+    for (const source of sources) {
+      for (const declaration of source.classes) {
+        if (!declaration.partial) continue;
+        const fragments = fragmentsByClass.get(declaration.name) ?? [];
+        fragments.push({ source, declaration });
+        fragmentsByClass.set(declaration.name, fragments);
+      }
+    }
+    for (const [className, fragments] of fragmentsByClass) {
+      const roots = [...new Set(fragments.filter(f => f.declaration.plugin).map(f => path.posix.dirname(f.source.path)))];
+      const groups = new Map<string, typeof fragments>();
+      for (const fragment of fragments) {
+        const root = closestRoot(path.posix.dirname(fragment.source.path), roots);
+        if (root === null) continue;
+        groups.set(root, [...(groups.get(root) ?? []), fragment]);
+      }
+      for (const group of groups.values()) {
+        group.sort((a, b) => fragmentRank(a.declaration) - fragmentRank(b.declaration) || a.source.path.localeCompare(b.source.path));
+        const files = [...new Map(group.map(f => [f.source.path, f.source])).values()];
+        // A plugin with a single fragment reads its metadata like a non-partial one:
+        // from anywhere in the file when it is the file's only plugin
+        const single = group.length === 1 && group[0]!.source.classes.filter(c => c.plugin).length === 1;
+        const metadata = this.parsePluginMetadata(single ? group[0]!.source.content : group.map(f => f.declaration.attributes).join("\n"));
+        plugins.push(this.toFoundPlugin(repoFullName, repoInfo, commitSha, className, metadata, group[0]!.source, files));
+        for (const file of files) usedFiles.add(file.path);
+      }
+    }
+
+    // Files without a recognizable plugin class (e.g. one deriving from a custom
+    // base class) count as one plugin each
+    for (const source of sources) {
+      if (usedFiles.has(source.path)) continue;
+      const metadata = this.parsePluginMetadata(source.content);
+      plugins.push(this.toFoundPlugin(repoFullName, repoInfo, commitSha, metadata.className ?? source.classes[0]?.name ?? null, metadata, source, [source]));
+    }
+
+    return plugins;
   }
 
   private shouldSkipDirectory(dirName: string): boolean {
-    const skipDirs = [
-      ".git", ".vs", ".vscode", "bin", "obj", "packages", 
-      "node_modules", ".nuget", "TestResults", ".idea"
-    ];
-    return skipDirs.includes(dirName) || dirName.startsWith(".");
-  }
-
-  private parsePluginMetadata(content: string): {
-    name: string | null;
-    author: string | null;
-    version: string | null;
-    resourceId: string | null;
-    description: string | null;
-    className: string | null;
-  } {
+    return this.settings.skipDirectories.includes(dirName)
+      || (this.settings.skipHiddenDirectories && dirName.startsWith("."));
+  }
+
+  private parsePluginMetadata(content: string): PluginMetadata {
     let name: string | null = null;
     let author: string | null = null;
     let version: string | null = null;
@@ -717,58 +1361,78 @@ class RepositoryCrawler {
     return cleaned;
   }
 
-  private analyzeCSFile(filePath: string, repoRoot: string, repoFullName: string, repoInfo: any): FoundPlugin | null {
+  private analyzeCSFile(filePath: string, repoRoot: string): PluginSourceFile | null {
     try {
-      const content = fs.readFileSync(filePath, "utf-8");
+      const source = fs.readFileSync(filePath);
+      const content = source.toString("utf-8");
       
-      // Check if file contains Oxide.Plugins namespace
-      if (!content.includes("namespace Oxide.Plugins")) {
+      // Only files with a discovery signature, e.g. the Oxide.Plugins namespace
+      if (!matchesSignature(content, this.signatures)) {
         return null;
       }
 
-      // Parse plugin metadata using new function
-      const metadata = this.parsePluginMetadata(content);
-      
-      const relativePath = path.relative(repoRoot, filePath);
-      const fileName = path.basename(filePath, ".cs");
-      
-      // Determine plugin name (priority: Info attribute, class name, file name)
-      let pluginName = metadata.name || metadata.className || fileName;
-      
-      // Determine author (priority: Info attribute, repository owner)
-      let pluginAuthor = metadata.author || repoInfo.owner_login;
-
-      // Create plugin in enhanced format
       return {
-        plugin_name: pluginName,
-        plugin_author: pluginAuthor,
-        plugin_version: metadata.version,
-        plugin_description: metadata.description,
-        plugin_resource_id: metadata.resourceId,
-        language: "C#",
-        file: {
-          path: relativePath.replace(/\\/g, "/"), // Normalize path separators
-          html_url: `${repoInfo.html_url}/blob/${repoInfo.default_branch}/${relativePath.replace(/\\/g, "/")}`,
-          raw_url: `https://raw.githubusercontent.com/${repoFullName}/${repoInfo.default_branch}/${relativePath.replace(/\\/g, "/")}`
-        },
-        repository: {
-          full_name: repoInfo.full_name,
-          name: repoInfo.name,
-          html_url: repoInfo.html_url,
-          description: repoInfo.description,
-          owner_login: repoInfo.owner_login,
-          owner_url: repoInfo.owner_url,
-          default_branch: repoInfo.default_branch,
-          stargazers_count: repoInfo.stargazers_count,
-          forks_count: repoInfo.forks_count,
-          open_issues_count: repoInfo.open_issues_count
-        }
+        path: path.relative(repoRoot, filePath).replace(/\\/g, "/"), // Normalize path separators
+        content,
+        sha: this.archive.add(source),
+        size: source.length,
+        classes: this.parseClassDeclarations(content)
       };
     } catch (error) {
       throw new Error(`Failed to read or analyze file: ${error}`);
     }
   }
 
+  private parseClassDeclarations(content: string): ClassDeclaration[] {
+    return Array.from(content.matchAll(CLASS_DECLARATION_PATTERN), match => {
+      const attributes = match[1] ?? "";
+      const baseTypes = (match[4] ?? "").split(",").map(t => t.trim());
+      return {
+        name: match[3]!,
+        partial: /\bpartial\b/.test(match[2] ?? ""),
+        plugin: INFO_ATTRIBUTE_PATTERN.test(attributes) || baseTypes.some(t => /(?:^|\.)\w*Plugin$/.test(t)),
+        attributes
+      };
+    });
+  }
+
+  // Builds the entry of a plugin from its main file and all its files
+  private toFoundPlugin(
+    repoFullName: string,
+    repoInfo: PluginRepository,
+    commitSha: string | null,
+    className: string | null,
+    metadata: PluginMetadata,
+    main: PluginSourceFile,
+    files: PluginSourceFile[]
+  ): FoundPlugin {
+    for (const file of files) {
+      this.archive.link(repoFullName, file.path, file.sha, metadata.version);
+    }
+    const toPluginFile = (file: PluginSourceFile): FoundPlugin["file"] => ({
+      path: file.path,
+      ...fileLinks(repoFullName, repoInfo.default_branch, file.path, commitSha),
+      sha: file.sha,
+      size: file.size
+    });
+
+    return {
+      // Name priority: Info attribute, class name, file name
+      plugin_name: metadata.name || className || path.posix.basename(main.path, ".cs"),
+      // Author priority: Info attribute, repository owner
+      plugin_author: metadata.author || repoInfo.owner_login,
+      plugin_version: metadata.version,
+      plugin_description: metadata.description,
+      plugin_resource_id: metadata.resourceId,
+      language: "C#",
+      ...classifyPlugin(files.map(f => f.content).join("\n"), className ?? undefined),
+      ...(className ? { plugin_class: className } : {}),
+      file: toPluginFile(main),
+      ...(files.length > 1 ? { files: files.map(toPluginFile) } : {}),
+      repository: repoInfo
+    };
+  }
+
   private cleanupRepository(repoFullName: string): void {
     const repoDir = path.join(this.tempDir, repoFullName.replace("/", "_"));
     
@@ -792,29 +1456,41 @@ class RepositoryCrawler {
   }
 }
 
-// Main execution
-async function main() {
-  const crawler = new RepositoryCrawler();
+// Runs an action with a crawler whose temp directory is removed afterwards. The
+// first SIGINT/SIGTERM cancels the crawl, which then stores its results and
+// finishes; a second one exits right away.
+async function withCrawler<T>(action: (crawler: RepositoryCrawler) => Promise<T>): Promise<T> {
+  const config = getConfig();
+  const crawler = new RepositoryCrawler(config, GitHubTokenPool.fromEnv(config.github.apiUrl));
   
-  // Handle cleanup on exit
-  process.on("SIGINT", () => {
-    console.log("\nReceived SIGINT, cleaning up...");
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (!crawler.cancelled) {
+      console.log(`\nReceived ${signal}, cancelling the crawl...`);
+      crawler.cancel();
+      return;
+    }
+    console.log(`\nReceived ${signal} again, cleaning up...`);
     crawler.cleanup();
-    process.exit(0);
-  });
+    process.exit(1);
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
 
-  process.on("SIGTERM", () => {
-    console.log("\nReceived SIGTERM, cleaning up...");
+  try {
+    return await action(crawler);
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
     crawler.cleanup();
-    process.exit(0);
-  });
+  }
+}
 
+// Main execution
+async function main() {
   try {
-    await crawler.crawlRepositories();
+    await withCrawler((crawler) => crawler.crawlRepositories());
   } catch (error) {
     console.error("Crawl failed:", error);
-  } finally {
-    crawler.cleanup();
   }
 }
 
@@ -827,4 +1503,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch(console.error);
 }
 
-export { RepositoryCrawler, type FoundPlugin, type RepositoryCrawlResult };
\ No newline at end of file
+export { RepositoryCrawler, withCrawler, type FoundPlugin, type RepositoryCrawlResult };
\ No newline at end of file
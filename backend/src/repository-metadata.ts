@@ -0,0 +1,121 @@
+import { MAX_RATE_LIMIT_ATTEMPTS, type RequestScheduler } from "./request-scheduler.js";
+import type { PluginRepository, RepositoryLicense, RepositoryParent } from "./published-types.js";
+
+// Repository metadata from the GitHub API, shared by the indexer and the crawler.
+// Both cache it in the pipeline database's repositories table.
+
+// REST response of /repos/{owner}/{name}
+export type GitHubRepo = {
+  full_name: string;
+  name: string;
+  html_url: string;
+  description: string | null;
+  default_branch: string;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  created_at: string;
+  pushed_at: string;
+  owner: {
+    login: string;
+    html_url: string;
+  };
+  node_id: string;
+  archived: boolean;
+  fork: boolean;
+  parent?: {
+    full_name: string;
+    html_url: string;
+  };
+  license: { spdx_id: string | null; name: string } | null;
+  topics?: string[];
+};
+
+// Normalized repository metadata from either API, cached in the
+// pipeline database with its fetch time
+export type RepoMetadata = {
+  node_id: string;
+  full_name: string;
+  name: string;
+  html_url: string;
+  description: string | null;
+  default_branch: string;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  created_at: string;
+  pushed_at: string | null;
+  owner: {
+    login: string;
+    html_url: string;
+  };
+  is_archived: boolean;
+  is_fork: boolean;
+  parent: RepositoryParent | null;
+  license: RepositoryLicense | null;
+  topics: string[];
+  fetched_at: string;
+};
+
+export function fromRestRepo(repo: GitHubRepo): RepoMetadata {
+  return {
+    node_id: repo.node_id,
+    full_name: repo.full_name,
+    name: repo.name,
+    html_url: repo.html_url,
+    description: repo.description,
+    default_branch: repo.default_branch,
+    stargazers_count: repo.stargazers_count,
+    forks_count: repo.forks_count,
+    open_issues_count: repo.open_issues_count,
+    created_at: repo.created_at,
+    pushed_at: repo.pushed_at,
+    owner: { login: repo.owner.login, html_url: repo.owner.html_url },
+    is_archived: repo.archived,
+    is_fork: repo.fork,
+    parent: repo.parent ? { full_name: repo.parent.full_name, html_url: repo.parent.html_url } : null,
+    license: repo.license ? { spdx_id: repo.license.spdx_id, name: repo.license.name } : null,
+    topics: repo.topics ?? [],
+    fetched_at: new Date().toISOString()
+  };
+}
+
+export function toIndexedRepository(repo: RepoMetadata): PluginRepository {
+  return {
+    full_name: repo.full_name,
+    name: repo.name,
+    html_url: repo.html_url,
+    description: repo.description,
+    owner_login: repo.owner.login,
+    owner_url: repo.owner.html_url,
+    default_branch: repo.default_branch,
+    stargazers_count: repo.stargazers_count,
+    forks_count: repo.forks_count,
+    open_issues_count: repo.open_issues_count,
+    created_at: repo.created_at,
+    is_archived: repo.is_archived,
+    is_fork: repo.is_fork,
+    parent: repo.parent,
+    license: repo.license,
+    topics: repo.topics
+  };
+}
+
+// Null for repositories that do not exist (any more) or are not visible
+export async function fetchRepositoryMetadata(scheduler: RequestScheduler, apiUrl: string, fullName: string): Promise<RepoMetadata | null> {
+  const url = `${apiUrl}/repos/${fullName}`;
+  for (let attempt = 1; ; attempt++) {
+    const res = await scheduler.run(url, (token) => fetch(url, {
+      headers: {
+        "Accept": "application/vnd.github.v3+json",
+        "Authorization": `Bearer ${token}`,
+        "X-GitHub-Api-Version": "2022-11-28"
+      }
+    }));
+    // The pool has recorded the exhausted budget; retry on another token or after the reset
+    if ((res.status === 403 || res.status === 429) && res.headers.get("X-RateLimit-Remaining") === "0" && attempt < MAX_RATE_LIMIT_ATTEMPTS) continue;
+    if (res.status === 404 || res.status === 451) return null;
+    if (!res.ok) throw new Error(`GitHub API ${res.status} ${res.statusText}`);
+    return fromRestRepo(await res.json() as GitHubRepo);
+  }
+}
@@ -0,0 +1,105 @@
+import type { GitHubTokenPool, PooledToken } from "./github-token-pool.js";
+
+// Bounded-concurrency scheduler for GitHub API requests.
+// Rate limit budgets are tracked per token and resource by the token pool; the
+// scheduler paces requests ahead of time, so a run spreads its remaining budget
+// instead of hitting a 403.
+
+// Attempts per request while GitHub reports an exhausted budget. The scheduler
+// waits for the earliest reset between attempts, so hitting the cap means the
+// budget is not coming back (for example, a 403 without usable reset headers)
+export const MAX_RATE_LIMIT_ATTEMPTS = 6;
+
+type ResourceStats = {
+  requests: number;
+  pacedMs: number;
+};
+
+type RequestSchedulerOptions = {
+  concurrency: number;
+  tokens: GitHubTokenPool;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Mirrors the resource names GitHub reports in X-RateLimit-Resource
+function rateLimitResourceForUrl(url: string): string {
+  const pathname = new URL(url).pathname;
+  if (pathname.endsWith("/search/code")) return "code_search";
+  if (pathname.includes("/search/")) return "search";
+  if (pathname.endsWith("/graphql")) return "graphql";
+  return "core";
+}
+
+export class RequestScheduler {
+  private concurrency: number;
+  private tokens: GitHubTokenPool;
+  private active = 0;
+  private waiters: (() => void)[] = [];
+  private stats = new Map<string, ResourceStats>();
+  private startedAt = Date.now();
+
+  constructor(options: RequestSchedulerOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.tokens = options.tokens;
+  }
+
+  // Runs a request once a slot is free and some token has budget for the resource
+  async run(url: string, request: (token: string) => Promise<Response>): Promise<Response> {
+    const resource = rateLimitResourceForUrl(url);
+    const token = await this.acquire(resource);
+    try {
+      const res = await request(await this.tokens.resolve(token));
+      this.tokens.observe(token, resource, res.headers);
+      return res;
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(resource: string): Promise<PooledToken> {
+    const stats = this.stats.get(resource) ?? { requests: 0, pacedMs: 0 };
+    this.stats.set(resource, stats);
+
+    while (true) {
+      if (this.active >= this.concurrency) {
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+
+      const { token, delay } = this.tokens.pick(resource);
+      if (delay > 0) {
+        stats.pacedMs += delay;
+        await sleep(delay);
+        continue;
+      }
+
+      this.active++;
+      stats.requests++;
+      this.tokens.consume(token, resource);
+      return token;
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiters.shift()?.();
+  }
+
+  // Starts a new throughput window; budgets carry over
+  resetStats(): void {
+    this.stats.clear();
+    this.startedAt = Date.now();
+  }
+
+  report(): string {
+    const elapsedSec = Math.max(1, (Date.now() - this.startedAt) / 1000);
+    const total = Array.from(this.stats.values()).reduce((sum, s) => sum + s.requests, 0);
+    const perResource = Array.from(this.stats.entries())
+      .map(([resource, s]) => `${resource}: ${s.requests} requests, paced ${Math.round(s.pacedMs / 1000)}s`)
+      .join("; ");
+    return `${total} requests in ${Math.round(elapsedSec)}s (${(total / elapsedSec).toFixed(2)} req/s, concurrency ${this.concurrency}, ${this.tokens.size} tokens)${perResource ? ` - ${perResource}` : ""}`;
+  }
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_SEARCH_FILE_SIZE,
+  collectLeaves,
+  countLeaves,
+  createPartition,
+  partitionLabel,
+  partitionQuery,
+  splitPartition
+} from "./search-partitions.js";
+
+test("a split covers the parent range with two adjacent halves", () => {
+  const root = createPartition(0, MAX_SEARCH_FILE_SIZE);
+  const [lower, upper] = splitPartition(root);
+
+  assert.deepEqual([lower.min, lower.max, upper.min, upper.max], [0, 196608, 196609, MAX_SEARCH_FILE_SIZE]);
+  assert.equal(lower.count, null);
+  assert.equal(upper.counted_at, null);
+  assert.deepEqual(root.children, [lower, upper]);
+});
+
+test("leaves are listed in ascending size order across nested splits", () => {
+  const root = createPartition(0, 100);
+  const [lower] = splitPartition(root);
+  splitPartition(lower);
+
+  assert.equal(countLeaves(root), 3);
+  assert.deepEqual(collectLeaves(root).map(leaf => [leaf.min, leaf.max]), [[0, 25], [26, 50], [51, 100]]);
+});
+
+test("a partition narrows the search query by file size", () => {
+  const partition = createPartition(10, 20);
+  assert.equal(partitionQuery("namespace Oxide.Plugins in:file", partition), "namespace Oxide.Plugins in:file size:10..20");
+  assert.equal(partitionLabel(partition), "size 10..20");
+});
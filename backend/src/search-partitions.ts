@@ -0,0 +1,42 @@
+// Search space partitioning by file size. GitHub returns at most 1000 results
+// per query, so ranges are bisected until every leaf fits under that cap.
+export type SizePartition = {
+  min: number;
+  max: number;
+  count: number | null;
+  counted_at: string | null;
+  children?: [SizePartition, SizePartition];
+};
+
+export const SEARCH_RESULT_CAP = 1000;
+export const SEARCH_PAGE_SIZE = 100;
+// GitHub code search does not index files larger than 384 KB
+export const MAX_SEARCH_FILE_SIZE = 384 * 1024;
+
+export function createPartition(min: number, max: number): SizePartition {
+  return { min, max, count: null, counted_at: null };
+}
+
+export function partitionQuery(baseQuery: string, partition: SizePartition): string {
+  return `${baseQuery} size:${partition.min}..${partition.max}`;
+}
+
+export function partitionLabel(partition: SizePartition): string {
+  return `size ${partition.min}..${partition.max}`;
+}
+
+// Leaves in ascending size order
+export function collectLeaves(partition: SizePartition): SizePartition[] {
+  if (!partition.children) return [partition];
+  return [...collectLeaves(partition.children[0]), ...collectLeaves(partition.children[1])];
+}
+
+export function countLeaves(partition: SizePartition): number {
+  return collectLeaves(partition).length;
+}
+
+export function splitPartition(partition: SizePartition): [SizePartition, SizePartition] {
+  const mid = Math.floor((partition.min + partition.max) / 2);
+  partition.children = [createPartition(partition.min, mid), createPartition(mid + 1, partition.max)];
+  return partition.children;
+}
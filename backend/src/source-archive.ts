@@ -0,0 +1,99 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { PluginStore } from "./plugin-store.js";
+import { writePublishedFile } from "./published-schemas.js";
+import type { ArchivedBlob, ArchivedPlugin } from "./published-types.js";
+
+// Content-addressed archive of plugin sources. Every distinct blob the indexer or
+// the crawler sees is stored once as archive/<2 hex>/<git blob SHA>.cs under
+// paths.archiveRoot, so a version stays readable after its file is rewritten or
+// deleted. source_archive.json in the output directory maps each plugin file to
+// its archived blobs.
+
+const ARCHIVE_DIR = "archive";
+
+// The SHA git (and the GitHub API) assigns to a blob with this content
+export function gitBlobSha(content: Buffer): string {
+  return crypto.createHash("sha1").update(`blob ${content.length}\0`).update(content).digest("hex");
+}
+
+export function archivedBlobPath(sha: string): string {
+  return path.posix.join(ARCHIVE_DIR, sha.slice(0, 2), `${sha}.cs`);
+}
+
+export class SourceArchive {
+  private added = 0;
+  private linked = 0;
+
+  constructor(private store: PluginStore, private outputDir: string, private archiveRoot: string) {}
+
+  // Blobs or plugin links added since the archive was opened
+  get changed(): boolean {
+    return this.added + this.linked > 0;
+  }
+
+  has(sha: string): boolean {
+    return this.store.hasArchivedBlob(sha);
+  }
+
+  // Stores a blob unless it is archived already; returns its SHA
+  add(content: Buffer): string {
+    const sha = gitBlobSha(content);
+    if (this.has(sha)) return sha;
+    const filePath = path.join(this.archiveRoot, archivedBlobPath(sha));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, content);
+    fs.renameSync(tmp, filePath);
+    this.store.saveArchivedBlob(sha, content.length);
+    this.added++;
+    return sha;
+  }
+
+  // Content of an archived blob; null when it is not archived or its file is gone
+  read(sha: string): Buffer | null {
+    if (!this.has(sha)) return null;
+    const filePath = path.join(this.archiveRoot, archivedBlobPath(sha));
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  // Records that a plugin file had an archived blob
+  link(repoFullName: string, filePath: string, sha: string, pluginVersion: string | null): void {
+    if (this.store.linkPluginBlob(repoFullName, filePath, sha, pluginVersion, new Date().toISOString())) {
+      this.linked++;
+    }
+  }
+
+  summary(): string {
+    return `${this.added} new blobs, ${this.linked} new plugin versions`;
+  }
+
+  exportIndex(): void {
+    const byFile = new Map<string, { repo_full_name: string; file_path: string; blobs: ArchivedBlob[] }>();
+    for (const row of this.store.loadPluginBlobs()) {
+      const fileKey = `${row.repo_full_name}#${row.file_path}`;
+      const entry = byFile.get(fileKey) ?? { repo_full_name: row.repo_full_name, file_path: row.file_path, blobs: [] };
+      entry.blobs.push({
+        sha: row.sha,
+        path: archivedBlobPath(row.sha),
+        size: row.size,
+        plugin_version: row.plugin_version,
+        first_seen: row.first_seen,
+        last_seen: row.last_seen
+      });
+      byFile.set(fileKey, entry);
+    }
+    // Every entry has at least the blob that created it
+    const plugins = Array.from(byFile.values()) as ArchivedPlugin[];
+    writePublishedFile(this.outputDir, "source_archive.json", {
+      generated_at: new Date().toISOString(),
+      count: plugins.length,
+      plugins
+    });
+  }
+
+  indexExists(): boolean {
+    return fs.existsSync(path.join(this.outputDir, "source_archive.json"));
+  }
+}
@@ -48,7 +48,7 @@ const FilterSection = React.memo(({
   const processedData = useMemo(() => {
     const filtered = searchTerm 
       ? allOptions.filter(option => 
-          option.toLowerCase().includes(searchTerm.toLowerCase())
+          FilterService.getValueLabel(field, option).toLowerCase().includes(searchTerm.toLowerCase())
         )
       : allOptions;
     
@@ -86,7 +86,7 @@ const FilterSection = React.memo(({
       needsSearch: false,
       visible: isExpanded ? filtered.length : Math.min(maxVisible, filtered.length)
     };
-  }, [allOptions, searchTerm, isExpanded, maxVisible, maxAbsolute]);
+  }, [allOptions, field, searchTerm, isExpanded, maxVisible, maxAbsolute]);
   
   const showSearch = allOptions.length > 5;
 
@@ -156,7 +156,7 @@ const FilterSection = React.memo(({
                     : 'text-gray-700'
                 }`}
               >
-                <span className="font-medium truncate pr-2">{option}</span>
+                <span className="font-medium truncate pr-2">{FilterService.getValueLabel(field, option)}</span>
                 <span className={`text-xs px-1.5 py-0.5 rounded-full flex-shrink-0 ${
                   isActive 
                     ? 'bg-blue-100 text-blue-800' 
@@ -216,6 +216,8 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
   onClose
 }) => {
   const [expandedSections, setExpandedSections] = useState({
+    frameworks: false,
+    games: false,
     authors: false,
     versions: false,
     owners: false,
@@ -235,20 +237,48 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     };
 
     // Calculate options for each filter type based on remaining plugins  
+    const frameworkPlugins = getAvailablePluginsForField('framework');
+    const gamePlugins = getAvailablePluginsForField('game');
     const authorPlugins = getAvailablePluginsForField('plugin_author');
     const versionPlugins = getAvailablePluginsForField('plugin_version');
     const ownerPlugins = getAvailablePluginsForField('repo_owner');
 
     const options = {
+      framework: new Set<string>(),
+      game: new Set<string>(),
       plugin_author: new Set<string>(),
       plugin_version: new Set<string>(),
       repo_owner: new Set<string>(),
       // Count maps for O(1) lookups
+      frameworkCounts: new Map<string, number>(),
+      gameCounts: new Map<string, number>(),
       authorCounts: new Map<string, number>(),
       versionCounts: new Map<string, number>(),
       ownerCounts: new Map<string, number>(),
     };
 
+    // Extract frameworks and games from available plugins (entries indexed
+    // before classification have neither)
+    frameworkPlugins.forEach(plugin => {
+      if (plugin.framework) {
+        options.framework.add(plugin.framework);
+        options.frameworkCounts.set(
+          plugin.framework,
+          (options.frameworkCounts.get(plugin.framework) || 0) + 1
+        );
+      }
+    });
+
+    gamePlugins.forEach(plugin => {
+      if (plugin.game) {
+        options.game.add(plugin.game);
+        options.gameCounts.set(
+          plugin.game,
+          (options.gameCounts.get(plugin.game) || 0) + 1
+        );
+      }
+    });
+
     // Extract authors from available plugins
     authorPlugins.forEach(plugin => {
       if (plugin.plugin_author) {
@@ -322,12 +352,24 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
       return a.localeCompare(b); // Alphabetical for same count
     });
 
+    // Sort frameworks and games by count (most plugins first)
+    const sortedFrameworks = Array.from(options.framework).sort((a, b) =>
+      (options.frameworkCounts.get(b) || 0) - (options.frameworkCounts.get(a) || 0)
+    );
+    const sortedGames = Array.from(options.game).sort((a, b) =>
+      (options.gameCounts.get(b) || 0) - (options.gameCounts.get(a) || 0)
+    );
+
     return {
+      framework: sortedFrameworks,
+      game: sortedGames,
       plugin_author: sortedAuthors,
       plugin_version: sortedVersions,
       repo_owner: sortedOwners,
       // O(1) count lookup maps
       counts: {
+        framework: options.frameworkCounts,
+        game: options.gameCounts,
         plugin_author: options.authorCounts,
         plugin_version: options.versionCounts,
         repo_owner: options.ownerCounts,
@@ -343,6 +385,8 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
       const totalOwners = baseFilterOptions.repo_owner.length;
 
       setExpandedSections({
+        frameworks: true,
+        games: baseFilterOptions.game.length <= 5,
         authors: totalAuthors <= 5,
         versions: totalVersions <= 5, 
         owners: totalOwners <= 5,
@@ -430,7 +474,7 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
                 className="flex items-center space-x-1 bg-white px-2 py-1 rounded-md border border-blue-200 text-xs"
               >
                 <span className="text-blue-700 font-medium truncate">
-                  {filter.value}
+                  {FilterService.getValueLabel(filter.field, filter.value)}
                 </span>
                 <button
                   onClick={() => removeFilter(filter.field, filter.value)}
@@ -446,6 +490,34 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
 
       {/* Filter Sections */}
       <div className="p-4 space-y-4 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100 flex-1">
+        <FilterSection
+          title="Framework"
+          field="framework"
+          allOptions={baseFilterOptions.framework}
+          activeFilters={activeFilters}
+          onAddFilter={addFilter}
+          onRemoveFilter={removeFilter}
+          isExpanded={expandedSections.frameworks}
+          onToggleExpanded={() => toggleSection('frameworks')}
+          maxVisible={5}
+          maxAbsolute={10}
+          getPluginCount={getPluginCount}
+        />
+
+        <FilterSection
+          title="Games"
+          field="game"
+          allOptions={baseFilterOptions.game}
+          activeFilters={activeFilters}
+          onAddFilter={addFilter}
+          onRemoveFilter={removeFilter}
+          isExpanded={expandedSections.games}
+          onToggleExpanded={() => toggleSection('games')}
+          maxVisible={5}
+          maxAbsolute={20}
+          getPluginCount={getPluginCount}
+        />
+
         <FilterSection
           title="Authors"
           field="plugin_author"
@@ -1,12 +1,13 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import type { IndexedPlugin, PluginIndex } from "../types/plugin";
+import type { ArchivedBlob, IndexedPlugin, PluginIndex } from "../types/plugin";
 import { ApiService } from "../services/api";
 import { CodeHighlight } from "./CodeHighlight";
 import { PluginAnalyzer, type PluginAnalysis } from "../utils/pluginAnalyzer";
 import {
   Star,
   GitFork,
+  GitBranch,
   AlertCircle,
   User,
   Github,
@@ -25,8 +26,22 @@ import {
   Package2,
   Settings,
   Info as InfoIcon,
+  Tag,
 } from "lucide-react";
 
+async function fetchBranchContent(plugin: IndexedPlugin): Promise<string> {
+  // raw_url закреплён за проиндексированным коммитом, текущая версия — latest_raw_url
+  const rawUrl = plugin.file.latest_raw_url ?? plugin.file.raw_url;
+
+  // Используем публичный CORS прокси для избежания CORS проблем
+  const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(rawUrl)}`;
+  const response = await fetch(proxyUrl);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.text();
+}
+
 export const PluginDetail: React.FC = () => {
   const { pluginId } = useParams<{ pluginId: string }>();
   const navigate = useNavigate();
@@ -39,6 +54,11 @@ export const PluginDetail: React.FC = () => {
   const [pluginAnalysis, setPluginAnalysis] = useState<PluginAnalysis | null>(
     null
   );
+  // Архивные версии файла; null, пока архив не загружен
+  const [archivedBlobs, setArchivedBlobs] = useState<ArchivedBlob[] | null>(
+    null
+  );
+  const [selectedBlob, setSelectedBlob] = useState<ArchivedBlob | null>(null);
 
   useEffect(() => {
     void loadPlugins();
@@ -48,45 +68,31 @@ export const PluginDetail: React.FC = () => {
   const plugin: IndexedPlugin | undefined =
     pluginIndex?.items[parseInt(pluginId || "0", 10)];
 
-  // Загружаем содержимое файла когда плагин загружен
+  // Загружаем список архивных версий файла
   useEffect(() => {
-    if (plugin && plugin.file.html_url && !fileContent && !fileLoading) {
-      void loadFileContent(plugin);
-    }
-  }, [plugin, fileContent, fileLoading]);
-
-  const loadPlugins = async (): Promise<void> => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await ApiService.fetchPluginIndex();
-      setPluginIndex(data);
-    } catch (err) {
-      setError("Failed to load plugin data");
-      console.error("Error loading plugins:", err);
-    } finally {
-      setLoading(false);
-    }
-  };
+    if (!plugin || archivedBlobs) return;
+    void ApiService.fetchArchivedBlobs(plugin.repository.full_name, plugin.file.path)
+      .then(setArchivedBlobs)
+      .catch((err: unknown) => {
+        console.warn("Failed to load source archive:", err);
+        setArchivedBlobs([]);
+      });
+  }, [plugin, archivedBlobs]);
 
-  const loadFileContent = async (plugin: IndexedPlugin): Promise<void> => {
+  // blob: архивная версия; без неё загружается текущая версия из ветки
+  const loadFileContent = useCallback(async (
+    plugin: IndexedPlugin,
+    blob: ArchivedBlob | null = selectedBlob
+  ): Promise<void> => {
     if (!plugin.file.html_url) return;
 
     try {
       setFileLoading(true);
       setFileError(null);
 
-      // Преобразуем URL из GitHub blob в raw URL для получения содержимого
-      const rawUrl = plugin.file.html_url.replace("/blob/", "/raw/");
-
-      // Используем публичный CORS прокси для избежания CORS проблем
-      const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(rawUrl)}`;
-      const response = await fetch(proxyUrl);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const content = await response.text();
+      const content = blob
+        ? await ApiService.fetchArchivedSource(blob)
+        : await fetchBranchContent(plugin);
       setFileContent(content);
 
       // Анализируем содержимое плагина
@@ -98,6 +104,30 @@ export const PluginDetail: React.FC = () => {
     } finally {
       setFileLoading(false);
     }
+  }, [selectedBlob]);
+
+  // Загружаем содержимое файла когда плагин и архив загружены: проиндексированную
+  // версию из архива, если она там есть, иначе текущую версию из ветки
+  useEffect(() => {
+    if (plugin && archivedBlobs && plugin.file.html_url && !fileContent && !fileLoading && !fileError) {
+      const indexedBlob = archivedBlobs.find((b) => b.sha === plugin.file.sha) ?? null;
+      setSelectedBlob(indexedBlob);
+      void loadFileContent(plugin, indexedBlob);
+    }
+  }, [plugin, archivedBlobs, fileContent, fileLoading, fileError, loadFileContent]);
+
+  const loadPlugins = async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await ApiService.fetchPluginIndex();
+      setPluginIndex(data);
+    } catch (err) {
+      setError("Failed to load plugin data");
+      console.error("Error loading plugins:", err);
+    } finally {
+      setLoading(false);
+    }
   };
 
   const formatDate = (dateString: string | null | undefined): string => {
@@ -115,6 +145,13 @@ export const PluginDetail: React.FC = () => {
     }
   };
 
+  const selectVersion = (sha: string): void => {
+    if (!plugin) return;
+    const blob = archivedBlobs?.find((b) => b.sha === sha) ?? null;
+    setSelectedBlob(blob);
+    void loadFileContent(plugin, blob);
+  };
+
   const formatNumber = (num: number | undefined): string => {
     if (!num) return "0";
     if (num > 1000000) return `${(num / 1000000).toFixed(1)}M`;
@@ -202,8 +239,28 @@ export const PluginDetail: React.FC = () => {
                         v{plugin.plugin_version}
                       </span>
                     )}
+                    {plugin.removed_at && (
+                      <span className="inline-flex items-center px-3 py-1 text-sm font-semibold bg-red-100 text-red-800 rounded-full">
+                        Removed from GitHub
+                      </span>
+                    )}
                   </div>
 
+                  {plugin.removed_at && (
+                    <div className="flex items-center text-red-700 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-3 text-sm">
+                      <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                      <span>
+                        {plugin.removed_reason === "superseded"
+                          ? "A newer version of this file replaced the indexed one"
+                          : plugin.removed_reason === "repo_deleted"
+                            ? "The repository was no longer found on GitHub"
+                            : "This file was no longer found on GitHub"}{" "}
+                        on {formatDate(plugin.removed_at)}. Links below may be
+                        broken.
+                      </span>
+                    </div>
+                  )}
+
                   <div className="flex items-center text-gray-600 mb-3">
                     <User className="h-4 w-4 mr-2" />
                     <span className="font-medium">
@@ -256,6 +313,19 @@ export const PluginDetail: React.FC = () => {
                   </a>
                 )}
 
+                {plugin.file.latest_html_url && (
+                  <a
+                    href={plugin.file.latest_html_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-all duration-200 hover:scale-105"
+                  >
+                    <GitBranch className="h-4 w-4" />
+                    Последняя версия
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+
                 {plugin.file.html_url && (
                   <a
                     href={plugin.file.html_url.replace("/blob/", "/raw/")}
@@ -453,6 +523,29 @@ export const PluginDetail: React.FC = () => {
                 Содержимое файла
               </h2>
 
+              {archivedBlobs && archivedBlobs.length > 0 && (
+                <div className="mb-4 flex items-center gap-2 text-sm">
+                  <label htmlFor="plugin-version" className="text-gray-600">
+                    Версия:
+                  </label>
+                  <select
+                    id="plugin-version"
+                    value={selectedBlob?.sha ?? ""}
+                    onChange={(e) => selectVersion(e.target.value)}
+                    disabled={fileLoading}
+                    className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-700"
+                  >
+                    <option value="">Текущая версия в ветке</option>
+                    {archivedBlobs.map((blob) => (
+                      <option key={blob.sha} value={blob.sha}>
+                        {blob.plugin_version ?? "без версии"} ·{" "}
+                        {formatDate(blob.first_seen)} · {blob.sha.slice(0, 7)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {fileLoading && (
                 <div className="flex items-center justify-center p-8">
                   <RefreshCw className="h-6 w-6 text-blue-600 animate-spin mr-2" />
@@ -499,7 +592,11 @@ export const PluginDetail: React.FC = () => {
                         Копировать
                       </button>
                       <a
-                        href={plugin.file.html_url?.replace("/blob/", "/raw/")}
+                        href={
+                          selectedBlob
+                            ? ApiService.archivedSourceUrl(selectedBlob)
+                            : plugin.file.latest_raw_url ?? plugin.file.raw_url
+                        }
                         download={plugin.file.path?.split("/").pop()}
                         className="px-3 py-1 bg-blue-100 hover:bg-blue-200 text-blue-700 text-sm rounded transition-colors"
                       >
@@ -553,6 +650,54 @@ export const PluginDetail: React.FC = () => {
                       {plugin.repository.description}
                     </p>
                   )}
+                  {(plugin.repository.is_archived || plugin.repository.is_fork) && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {plugin.repository.is_archived && (
+                        <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full">
+                          Архив
+                        </span>
+                      )}
+                      {plugin.repository.is_fork && (
+                        <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-700 rounded-full">
+                          Форк
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {plugin.repository.parent && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Форк{" "}
+                      <a
+                        href={plugin.repository.parent.html_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        {plugin.repository.parent.full_name}
+                      </a>
+                    </p>
+                  )}
+                  {plugin.repository.license && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Лицензия:{" "}
+                      {plugin.repository.license.spdx_id &&
+                      plugin.repository.license.spdx_id !== "NOASSERTION"
+                        ? plugin.repository.license.spdx_id
+                        : plugin.repository.license.name}
+                    </p>
+                  )}
+                  {plugin.repository.topics && plugin.repository.topics.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {plugin.repository.topics.map((topic) => (
+                        <span
+                          key={topic}
+                          className="inline-flex items-center px-2 py-0.5 text-xs bg-blue-50 text-blue-700 rounded-full"
+                        >
+                          {topic}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-3 pt-3 border-t border-gray-100">
@@ -616,6 +761,44 @@ export const PluginDetail: React.FC = () => {
                   </div>
                 </div>
 
+                {plugin.file.commit_sha && (
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <div className="text-xs text-gray-600 mb-1">
+                      Проиндексированный коммит:
+                    </div>
+                    <a
+                      href={`${plugin.repository.html_url}/commit/${plugin.file.commit_sha}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      {plugin.file.commit_sha.slice(0, 7)}
+                    </a>
+                  </div>
+                )}
+
+                {plugin.files && plugin.files.length > 1 && (
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <div className="text-xs text-gray-600 mb-1">
+                      Файлы плагина ({plugin.files.length}):
+                    </div>
+                    <ul className="space-y-1">
+                      {plugin.files.map((file) => (
+                        <li key={file.path}>
+                          <a
+                            href={file.html_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-xs text-blue-600 hover:text-blue-700 break-all"
+                          >
+                            {file.path}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <div className="text-xs text-gray-600 mb-1">
                     Размер файла:
@@ -686,6 +869,40 @@ export const PluginDetail: React.FC = () => {
               </div>
             </div>
 
+            {/* Release history */}
+            {plugin.releases && plugin.releases.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+                <h2 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2">
+                  <Tag className="h-4 w-4" />
+                  История релизов
+                </h2>
+
+                <ul className="space-y-3">
+                  {plugin.releases.map((release) => (
+                    <li key={release.commit_sha} className="flex items-start gap-3">
+                      <div className="w-2 h-2 bg-indigo-500 rounded-full mt-2 flex-shrink-0"></div>
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900">
+                          v{release.version}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatDate(release.released_at)} · {release.author}
+                        </div>
+                        <a
+                          href={`${plugin.repository.html_url}/commit/${release.commit_sha}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-xs text-blue-600 hover:text-blue-700"
+                        >
+                          {release.commit_sha.slice(0, 7)}
+                        </a>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Language */}
             <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
               <h2 className="text-lg font-bold text-gray-900 mb-4">
@@ -117,9 +117,10 @@ export const HomePage: React.FC = () => {
   } | null => {
     if (!pluginIndex) return null;
 
+    const activeIndex = ApiService.excludeRemoved(pluginIndex);
     const searchFiltered = searchQuery.trim()
-      ? ApiService.searchPlugins(searchQuery, pluginIndex, searchOptions)
-      : pluginIndex;
+      ? ApiService.searchPlugins(searchQuery, activeIndex, searchOptions)
+      : activeIndex;
 
     const finalItems = activeFilters.length > 0
       ? FilterService.applyFilters(searchFiltered.items, activeFilters)
@@ -132,7 +133,7 @@ export const HomePage: React.FC = () => {
     return {
       searchFiltered: searchFiltered.items,
       finalFiltered: finalItems,
-      totalCount: pluginIndex.count,
+      totalCount: activeIndex.count,
       filteredCount: finalItems.length
     };
   }, [pluginIndex, searchQuery, searchOptions, activeFilters]);
@@ -1,16 +1,20 @@
-import type { PluginIndex, SearchOptions, SearchFieldKey, IndexedPlugin } from '../types/plugin';
+import type { PluginIndex, SearchOptions, SearchFieldKey, IndexedPlugin, ArchivedBlob } from '../types/plugin';
+import type { PublishedFiles } from '../types/published';
 import { PluginMerger } from './pluginMerger';
 import { CacheService, type CacheMetadata } from './cacheService';
+import { PublishedMigrations } from './publishedMigrations';
 
 const API_BASE_URL = 'https://raw.githubusercontent.com/publicrust/plugins-forum/main/backend/output';
+// Archived sources are pushed to their own branch so they don't grow the history of main
+const ARCHIVE_BASE_URL = 'https://raw.githubusercontent.com/publicrust/plugins-forum/source-archive';
 
 export class ApiService {
   static async fetchPluginIndex(): Promise<PluginIndex> {
     try {
       // Fetch both plugin sources in parallel using cache
       const [oxidePlugins, crawledPlugins] = await Promise.all([
-        CacheService.fetchWithCache<PluginIndex>(`${API_BASE_URL}/oxide_plugins.json`),
-        CacheService.fetchWithCache<PluginIndex>(`${API_BASE_URL}/crawled_plugins.json`)
+        this.fetchPublished('oxide_plugins.json'),
+        this.fetchPublished('crawled_plugins.json')
       ]);
 
       // Merge the plugin sources
@@ -22,7 +26,7 @@ export class ApiService {
       // Fallback: try to fetch oxide_plugins.json only
       try {
         console.warn('Falling back to oxide_plugins.json only');
-        const oxidePlugins = await CacheService.fetchWithCache<PluginIndex>(`${API_BASE_URL}/oxide_plugins.json`);
+        const oxidePlugins = await this.fetchPublished('oxide_plugins.json');
         return oxidePlugins;
       } catch (fallbackError) {
         console.error('Fallback also failed:', fallbackError);
@@ -31,6 +35,38 @@ export class ApiService {
     }
   }
 
+  // Cached copies may predate the current format; upgrade them on read
+  private static async fetchPublished<K extends keyof PublishedFiles>(fileName: K): Promise<PublishedFiles[K]> {
+    const data = await CacheService.fetchWithCache<unknown>(`${API_BASE_URL}/${fileName}`);
+    return PublishedMigrations.migrate(fileName, data);
+  }
+
+  // Archived source versions of a plugin file, newest first
+  static async fetchArchivedBlobs(repoFullName: string, filePath: string): Promise<ArchivedBlob[]> {
+    const archive = await this.fetchPublished('source_archive.json');
+    const entry = archive.plugins.find((p) => p.repo_full_name === repoFullName && p.file_path === filePath);
+    return entry ? entry.blobs : [];
+  }
+
+  static archivedSourceUrl(blob: ArchivedBlob): string {
+    return `${ARCHIVE_BASE_URL}/${blob.path}`;
+  }
+
+  // Archived blobs never change, so they bypass the metadata checks of CacheService
+  static async fetchArchivedSource(blob: ArchivedBlob): Promise<string> {
+    const response = await fetch(this.archivedSourceUrl(blob));
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.text();
+  }
+
+  // Plugins tombstoned by the indexer no longer exist on GitHub
+  static excludeRemoved(plugins: PluginIndex): PluginIndex {
+    const items = plugins.items.filter((p) => !p.removed_at);
+    return { ...plugins, items, count: items.length };
+  }
+
   static searchPlugins(query: string, plugins: PluginIndex, options?: SearchOptions): PluginIndex {
     const q = query.trim();
     if (!q) return plugins;
@@ -1,10 +1,28 @@
-import type { IndexedPlugin } from '../types/plugin';
+import type { IndexedPlugin, PluginFramework, PluginGame } from '../types/plugin';
 
 export interface FilterValue {
   field: keyof IndexedPlugin | 'repo_name' | 'repo_full_name' | 'repo_description' | 'repo_owner' | 'file_path';
   value: string;
 }
 
+const FRAMEWORK_LABELS: Record<PluginFramework, string> = {
+  oxide: 'Oxide',
+  carbon: 'Carbon'
+};
+
+const GAME_LABELS: Record<PluginGame, string> = {
+  rust: 'Rust',
+  rust_legacy: 'Rust Legacy',
+  hurtworld: 'Hurtworld',
+  seven_days_to_die: '7 Days to Die',
+  reign_of_kings: 'Reign of Kings',
+  the_forest: 'The Forest',
+  unturned: 'Unturned',
+  space_engineers: 'Space Engineers',
+  universal: 'Universal',
+  unknown: 'Unknown'
+};
+
 export class FilterService {
   static applyFilters(plugins: IndexedPlugin[], filters: FilterValue[]): IndexedPlugin[] {
     if (filters.length === 0) return plugins;
@@ -40,6 +58,10 @@ export class FilterService {
         return plugin.plugin_description || null;
       case 'language':
         return plugin.language || null;
+      case 'framework':
+        return plugin.framework || null;
+      case 'game':
+        return plugin.game || null;
       case 'repo_name':
         return plugin.repository?.name || null;
       case 'repo_full_name':
@@ -55,6 +77,13 @@ export class FilterService {
     }
   }
 
+  // Display name of a filter value; framework and game values are identifiers
+  static getValueLabel(field: FilterValue['field'], value: string): string {
+    if (field === 'framework') return FRAMEWORK_LABELS[value as PluginFramework] ?? value;
+    if (field === 'game') return GAME_LABELS[value as PluginGame] ?? value;
+    return value;
+  }
+
   static getUniqueValues(plugins: IndexedPlugin[], field: FilterValue['field']): string[] {
     const values = plugins
       .map(plugin => this.getFieldValue(plugin, field))
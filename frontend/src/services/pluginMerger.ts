@@ -1,21 +1,39 @@
-import type { PluginIndex, IndexedPlugin } from '../types/plugin';
+import type { PluginIndex, IndexedPlugin, OxidePluginsFile, CrawledPluginsFile } from '../types/plugin';
 
 export class PluginMerger {
-  static mergePluginSources(oxidePlugins: PluginIndex, crawledPlugins: PluginIndex): PluginIndex {
+  // Sources index a file at different commits, so files are matched by their
+  // default-branch URL; entries without permalinks only have that one
+  private static fileKey(plugin: IndexedPlugin): string {
+    return plugin.file.latest_raw_url ?? plugin.file.raw_url;
+  }
+
+  static mergePluginSources(oxidePlugins: OxidePluginsFile, crawledPlugins: CrawledPluginsFile): PluginIndex {
     const mergedPluginsMap = new Map<string, IndexedPlugin>();
     
-    // First, add all oxide plugins to the map using raw_url as key
+    // First, add all oxide plugins to the map keyed by their file
     oxidePlugins.items.forEach(plugin => {
-      const key = plugin.file.raw_url;
+      const key = PluginMerger.fileKey(plugin);
       mergedPluginsMap.set(key, plugin);
     });
     
-    // Then, merge or add crawled plugins
-    crawledPlugins.items.forEach(crawledPlugin => {
-      const key = crawledPlugin.file.raw_url;
+    // Then, merge or add crawled plugins. The indexer records one plugin per file;
+    // further plugin classes the crawler found in the same file are added on their own.
+    // Entries the crawler flagged as removed come last, so a plugin class that
+    // replaced a removed one in the same file merges with the indexed entry
+    const mergedUrls = new Set<string>();
+    const crawledItems = [...crawledPlugins.items].sort((a, b) => Number(!!a.removed_at) - Number(!!b.removed_at));
+    crawledItems.forEach(crawledPlugin => {
+      let key = PluginMerger.fileKey(crawledPlugin);
+      if (mergedUrls.has(key)) {
+        key = `${key}#${crawledPlugin.plugin_class ?? crawledPlugin.plugin_name}`;
+      }
+      mergedUrls.add(key);
       const existingPlugin = mergedPluginsMap.get(key);
       
-      if (existingPlugin) {
+      if (existingPlugin && crawledPlugin.removed_at) {
+        // The indexed entry has its own removal state
+        return;
+      } else if (existingPlugin) {
         // Merge: add additional metadata from crawled plugin to existing one
         const mergedPlugin: IndexedPlugin = {
           ...existingPlugin,
@@ -24,8 +42,14 @@ export class PluginMerger {
           plugin_version: crawledPlugin.plugin_version || existingPlugin.plugin_version,
           plugin_description: crawledPlugin.plugin_description || existingPlugin.plugin_description,
           plugin_resource_id: crawledPlugin.plugin_resource_id || existingPlugin.plugin_resource_id,
+          // Both sources classify the same file; entries indexed before classification have none
+          framework: existingPlugin.framework || crawledPlugin.framework,
+          game: existingPlugin.game || crawledPlugin.game,
           // Use the most recent data source for other fields if available
           plugin_name: crawledPlugin.plugin_name || existingPlugin.plugin_name,
+          plugin_class: crawledPlugin.plugin_class,
+          files: crawledPlugin.files,
+          releases: crawledPlugin.releases,
         };
         mergedPluginsMap.set(key, mergedPlugin);
       } else {
@@ -49,7 +73,7 @@ export class PluginMerger {
     const uniquePlugins: IndexedPlugin[] = [];
     
     plugins.forEach(plugin => {
-      const url = plugin.file.raw_url;
+      const url = PluginMerger.fileKey(plugin);
       if (!seenUrls.has(url)) {
         seenUrls.add(url);
         uniquePlugins.push(plugin);
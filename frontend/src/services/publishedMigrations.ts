@@ -0,0 +1,49 @@
+import type { PublishedFiles } from '../types/published';
+
+type PublishedFileName = keyof PublishedFiles;
+
+type Migration = {
+  from: number;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+};
+
+// Mirrors the published-file migrations in backend/src/migrations.ts, so data cached
+// by CacheService before a format change is upgraded instead of breaking the page
+const CURRENT_VERSIONS: Record<PublishedFileName, number> = {
+  'oxide_plugins.json': 1,
+  'crawled_plugins.json': 1,
+  'author_discovered_repositories.json': 1,
+  'changelog.json': 1,
+  'source_archive.json': 1
+};
+
+const MIGRATIONS: Record<PublishedFileName, Migration[]> = {
+  'oxide_plugins.json': [{ from: 0, migrate: (data) => data }],
+  'crawled_plugins.json': [{ from: 0, migrate: (data) => data }],
+  'author_discovered_repositories.json': [{ from: 0, migrate: (data) => data }],
+  'changelog.json': [],
+  'source_archive.json': []
+};
+
+export class PublishedMigrations {
+  static migrate<K extends PublishedFileName>(fileName: K, data: unknown): PublishedFiles[K] {
+    let document = data as Record<string, unknown>;
+    const current = CURRENT_VERSIONS[fileName];
+    let version = typeof document.schema_version === 'number' ? document.schema_version : 0;
+
+    if (version > current) {
+      // Published by a newer backend; fields this build knows about may still be usable
+      console.warn(`${fileName} has schema_version ${version}, this build supports up to ${current}`);
+      return document as unknown as PublishedFiles[K];
+    }
+
+    for (; version < current; version++) {
+      const migration = MIGRATIONS[fileName].find((m) => m.from === version);
+      if (!migration) {
+        throw new Error(`Cannot migrate ${fileName} from schema_version ${version}`);
+      }
+      document = { ...migration.migrate(document), schema_version: version + 1 };
+    }
+    return document as unknown as PublishedFiles[K];
+  }
+}
@@ -1,49 +1,39 @@
-export interface PluginFile {
-  path: string;
-  html_url: string;
-  raw_url: string;
-  sha?: string | null;
-}
-
-export interface PluginRepository {
-  full_name: string;
-  name: string;
-  html_url: string;
-  description: string | null;
-  owner_login: string;
-  owner_url: string;
-  default_branch: string;
-  stargazers_count: number;
-  forks_count: number;
-  open_issues_count: number;
-  created_at?: string | null;
-}
-
-export interface PluginCommit {
-  sha: string;
-  author_name: string;
-  author_login: string;
-  author_url: string;
-  committed_at: string;
-  html_url: string;
-}
+import type {
+  CrawledPlugin,
+  IndexedPlugin as IndexedPluginRecord,
+  PluginFile
+} from './published';
 
-export interface PluginCommits {
-  created: PluginCommit;
-  latest: PluginCommit;
-}
+// Shapes of the published files are generated from backend/schemas (see published.ts)
+export type {
+  ArchivedBlob,
+  ArchivedPlugin,
+  CrawledPlugin,
+  CrawledPluginsFile,
+  OxidePluginsFile,
+  PluginCommit,
+  PluginCommits,
+  PluginFile,
+  PluginFramework,
+  PluginGame,
+  PluginRelease,
+  PluginRepository,
+  RemovalReason,
+  SourceArchiveFile
+} from './published';
 
-export interface IndexedPlugin {
-  plugin_name: string;
-  plugin_author?: string | null;
-  plugin_version?: string | null;
-  plugin_description?: string | null;
-  plugin_resource_id?: number | null;
-  language: string;
+// An entry from either published file: indexed entries carry commits and
+// tombstones, crawled entries the description, resource id, plugin class, the
+// files of multi-file plugins and the release timeline
+export interface IndexedPlugin extends Omit<IndexedPluginRecord, 'file' | 'indexed_at' | 'plugin_version'> {
   file: PluginFile;
-  repository: PluginRepository;
-  commits?: PluginCommits | null;
-  indexed_at?: string | null;
+  indexed_at?: string;
+  plugin_version?: string | null;
+  plugin_description?: CrawledPlugin['plugin_description'];
+  plugin_resource_id?: CrawledPlugin['plugin_resource_id'];
+  plugin_class?: CrawledPlugin['plugin_class'];
+  files?: CrawledPlugin['files'];
+  releases?: CrawledPlugin['releases'];
 }
 
 export interface PluginIndex {
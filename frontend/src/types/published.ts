@@ -0,0 +1,334 @@
+// Generated from backend/schemas by backend/src/generate-schema-types.ts.
+// Do not edit; change the schema and run `npm run generate-types` in backend/.
+
+/**
+ * Modding framework the plugin is written for, from its namespace, base class and using directives
+ */
+export type PluginFramework = "oxide" | "carbon";
+/**
+ * Game of the plugin's base class or Oxide.Game.* references; universal plugins (CovalencePlugin) run on any game
+ */
+export type PluginGame =
+  | "rust"
+  | "rust_legacy"
+  | "hurtworld"
+  | "seven_days_to_die"
+  | "reign_of_kings"
+  | "the_forest"
+  | "unturned"
+  | "space_engineers"
+  | "universal"
+  | "unknown";
+export type RemovalReason = "file_deleted" | "repo_deleted" | "superseded";
+
+/**
+ * Files in backend/output read by the frontend, by file name
+ */
+export interface PublishedFiles {
+  "oxide_plugins.json": OxidePluginsFile;
+  "crawled_plugins.json": CrawledPluginsFile;
+  "author_discovered_repositories.json": AuthorDiscoveredRepositoriesFile;
+  "changelog.json": ChangelogFile;
+  "source_archive.json": SourceArchiveFile;
+}
+/**
+ * output/oxide_plugins.json, written by the indexer from GitHub code search
+ */
+export interface OxidePluginsFile {
+  /**
+   * Format version; older files are upgraded by backend/src/migrations.ts
+   */
+  schema_version: 1;
+  generated_at: string;
+  query: string;
+  count: number;
+  items: IndexedPlugin[];
+}
+export interface IndexedPlugin {
+  plugin_name: string;
+  /**
+   * Empty when only the class name was found
+   */
+  plugin_author: string;
+  plugin_version?: string;
+  language: string;
+  framework?: PluginFramework;
+  game?: PluginGame;
+  file: IndexedPluginFile;
+  repository: PluginRepository;
+  commits?: PluginCommits;
+  indexed_at: string;
+  /**
+   * Tombstone for entries that disappeared from GitHub; purged after the grace period
+   */
+  removed_at?: string;
+  removed_reason?: RemovalReason;
+}
+/**
+ * A code search result always carries the blob SHA and size
+ */
+export interface IndexedPluginFile {
+  path: string;
+  /**
+   * Permalink at commit_sha; the default branch on entries without commit_sha. Not percent-encoded; paths may contain spaces
+   */
+  html_url: string;
+  /**
+   * Permalink at commit_sha, like html_url
+   */
+  raw_url: string;
+  sha: string;
+  size: number;
+  /**
+   * Commit the file was indexed at
+   */
+  commit_sha?: string;
+  /**
+   * The file on the default branch
+   */
+  latest_html_url?: string;
+  latest_raw_url?: string;
+}
+export interface PluginRepository {
+  full_name: string;
+  name: string;
+  html_url: string;
+  description: string | null;
+  owner_login: string;
+  owner_url: string;
+  default_branch: string;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  created_at?: string;
+  /**
+   * Missing on entries indexed before GraphQL metadata
+   */
+  is_archived?: boolean;
+  is_fork?: boolean;
+  parent?: RepositoryParent | null;
+  license?: RepositoryLicense | null;
+  topics?: string[];
+}
+export interface RepositoryParent {
+  full_name: string;
+  html_url: string;
+}
+export interface RepositoryLicense {
+  spdx_id: string | null;
+  name: string;
+}
+export interface PluginCommits {
+  created: PluginCommit;
+  latest: PluginCommit;
+}
+export interface PluginCommit {
+  sha: string;
+  author_name: string;
+  author_login: string;
+  author_url: string;
+  committed_at: string;
+  html_url: string;
+}
+/**
+ * output/crawled_plugins.json, written by the repository crawler from cloned repositories
+ */
+export interface CrawledPluginsFile {
+  /**
+   * Format version; older files are upgraded by backend/src/migrations.ts
+   */
+  schema_version: 1;
+  generated_at: string;
+  query: string;
+  count: number;
+  items: CrawledPlugin[];
+}
+export interface CrawledPlugin {
+  plugin_name: string;
+  plugin_author: string;
+  plugin_version: string | null;
+  plugin_description: string | null;
+  /**
+   * uMod resource id as written in the [Info] attribute
+   */
+  plugin_resource_id: string | null;
+  language: string;
+  framework?: PluginFramework;
+  game?: PluginGame;
+  /**
+   * C# class of the plugin; a file may declare several plugin classes. Missing on entries crawled before it was recorded
+   */
+  plugin_class?: string;
+  file: PluginFile;
+  /**
+   * Every file of a plugin split into partial classes, starting with the main file (`file`, the one with the [Info] attribute); missing for single-file plugins
+   */
+  files?: PluginFile[];
+  repository: PluginRepository;
+  /**
+   * SHA-256 over the path and blob SHA of each file of the plugin; a re-crawl that finds a different hash replaces the entry and moves the previous version to history
+   */
+  content_hash?: string;
+  /**
+   * When this version of the plugin was first crawled
+   */
+  crawled_at?: string;
+  /**
+   * Previous versions, newest first
+   */
+  history?: CrawledPluginVersion[];
+  /**
+   * Versions of the plugin's [Info] attribute with the commits that introduced them, newest first, read from the git log of the main file; only with crawler.versionHistory
+   */
+  releases?: PluginRelease[];
+  /**
+   * Set when a re-crawl no longer found the plugin in its repository
+   */
+  removed_at?: string;
+  removed_reason?: RemovalReason;
+}
+export interface PluginFile {
+  path: string;
+  /**
+   * Permalink at commit_sha; the default branch on entries without commit_sha. Not percent-encoded; paths may contain spaces
+   */
+  html_url: string;
+  /**
+   * Permalink at commit_sha, like html_url
+   */
+  raw_url: string;
+  sha?: string;
+  size?: number;
+  /**
+   * Commit the file was indexed at
+   */
+  commit_sha?: string;
+  /**
+   * The file on the default branch
+   */
+  latest_html_url?: string;
+  latest_raw_url?: string;
+}
+export interface CrawledPluginVersion {
+  content_hash?: string;
+  plugin_version: string | null;
+  /**
+   * Blob SHA of the main file, archived in the source archive
+   */
+  sha?: string;
+  commit_sha?: string;
+  crawled_at?: string;
+  replaced_at: string;
+}
+export interface PluginRelease {
+  version: string;
+  /**
+   * Commit date of the commit that changed the version
+   */
+  released_at: string;
+  commit_sha: string;
+  /**
+   * Git author name of the commit
+   */
+  author: string;
+}
+/**
+ * output/author_discovered_repositories.json, written by the author repository finder
+ */
+export interface AuthorDiscoveredRepositoriesFile {
+  /**
+   * Format version; older files are upgraded by backend/src/migrations.ts
+   */
+  schema_version: 1;
+  generated_at: string;
+  source: string;
+  count: number;
+  repositories: string[];
+}
+/**
+ * output/changelog.json, the changesets of recent indexer and crawler runs, newest first
+ */
+export interface ChangelogFile {
+  /**
+   * Format version; older files are upgraded by backend/src/migrations.ts
+   */
+  schema_version: 1;
+  generated_at: string;
+  /**
+   * Changesets of runs started before this are omitted
+   */
+  since: string;
+  count: number;
+  changesets: Changeset[];
+}
+/**
+ * Plugins added, updated and removed by one run
+ */
+export interface Changeset {
+  run_id: string;
+  source: "index" | "crawl";
+  started_at: string;
+  /**
+   * null when the run did not finish
+   */
+  completed_at: string | null;
+  added: number;
+  updated: number;
+  removed: number;
+  changes: PluginChange[];
+}
+export interface PluginChange {
+  kind: "added" | "updated" | "removed";
+  changed_at: string;
+  plugin_name: string;
+  plugin_author: string | null;
+  plugin_version: string | null;
+  /**
+   * Version before an update
+   */
+  previous_version?: string | null;
+  repo_full_name: string;
+  repo_owner: string;
+  repo_html_url: string;
+  file_path: string;
+  file_html_url: string;
+  sha?: string;
+  previous_sha?: string;
+  removed_reason?: RemovalReason;
+}
+/**
+ * output/source_archive.json, the archived source blobs of every plugin file
+ */
+export interface SourceArchiveFile {
+  /**
+   * Format version; older files are upgraded by backend/src/migrations.ts
+   */
+  schema_version: 1;
+  generated_at: string;
+  count: number;
+  plugins: ArchivedPlugin[];
+}
+export interface ArchivedPlugin {
+  repo_full_name: string;
+  file_path: string;
+  /**
+   * Newest first
+   *
+   * @minItems 1
+   */
+  blobs: [ArchivedBlob, ...ArchivedBlob[]];
+}
+export interface ArchivedBlob {
+  /**
+   * Git blob SHA of the source
+   */
+  sha: string;
+  /**
+   * Relative to the source archive root: the output directory, or the root of the source-archive branch
+   */
+  path: string;
+  size: number;
+  plugin_version: string | null;
+  first_seen: string;
+  last_seen: string;
+}
@@ -122,6 +122,25 @@ export function parseUrlState(searchParams: URLSearchParams): UrlState {
     });
   }
   
+  // Framework and game filters
+  const frameworks = searchParams.get('frameworks');
+  if (frameworks) {
+    frameworks.split(',').forEach(framework => {
+      if (framework.trim()) {
+        filters.push({ field: 'framework', value: framework.trim() });
+      }
+    });
+  }
+
+  const games = searchParams.get('games');
+  if (games) {
+    games.split(',').forEach(game => {
+      if (game.trim()) {
+        filters.push({ field: 'game', value: game.trim() });
+      }
+    });
+  }
+  
   if (filters.length > 0) {
     state.filters = filters;
   }
@@ -180,6 +199,8 @@ export function stateToUrlParams(state: UrlState): URLSearchParams {
     const authorFilters = state.filters.filter(f => f.field === 'plugin_author').map(f => f.value);
     const versionFilters = state.filters.filter(f => f.field === 'plugin_version').map(f => f.value);
     const ownerFilters = state.filters.filter(f => f.field === 'repo_owner').map(f => f.value);
+    const frameworkFilters = state.filters.filter(f => f.field === 'framework').map(f => f.value);
+    const gameFilters = state.filters.filter(f => f.field === 'game').map(f => f.value);
     
     if (authorFilters.length > 0) {
       params.set('authors', authorFilters.join(','));
@@ -190,6 +211,12 @@ export function stateToUrlParams(state: UrlState): URLSearchParams {
     if (ownerFilters.length > 0) {
       params.set('owners', ownerFilters.join(','));
     }
+    if (frameworkFilters.length > 0) {
+      params.set('frameworks', frameworkFilters.join(','));
+    }
+    if (gameFilters.length > 0) {
+      params.set('games', gameFilters.join(','));
+    }
   }
 
   return params;